@@ -0,0 +1,10 @@
+import React from "react";
+import { AnalysisDashboard } from "@/components/analysis/analysis-dashboard";
+
+// Single entry point for every data source; /home and /yahoo-dataset render
+// the same dashboard pinned to one provider.
+const Analysis: React.FC = () => (
+  <AnalysisDashboard providerId="alpha-vantage" allowProviderChange />
+);
+
+export default Analysis;
@@ -0,0 +1,32 @@
+import { z } from "zod";
+import {
+  clearSessionApiKey,
+  getCredentialStatus,
+  storeSessionApiKey,
+} from "@/lib/server/credentials";
+
+const updateSchema = z.object({
+  api_key: z.string().trim().min(1, "API key is required").max(64),
+});
+
+export async function GET() {
+  return Response.json(await getCredentialStatus());
+}
+
+export async function PUT(request: Request) {
+  const parsed = updateSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json(
+      { detail: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 422 }
+    );
+  }
+
+  await storeSessionApiKey(parsed.data.api_key);
+  return Response.json(await getCredentialStatus());
+}
+
+export async function DELETE() {
+  await clearSessionApiKey();
+  return Response.json(await getCredentialStatus());
+}
@@ -0,0 +1,11 @@
+import { generateMockMarketMovers, mockNotFound, resolveMockBackend } from "@/lib/mock";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ backend: string }> }
+) {
+  const backend = resolveMockBackend((await params).backend);
+  if (!backend) return mockNotFound();
+
+  return Response.json(generateMockMarketMovers(backend));
+}
@@ -0,0 +1,25 @@
+import {
+  generateMockNewsSentiment,
+  generateMockYahooNews,
+  mockNotFound,
+  resolveMockBackend,
+} from "@/lib/mock";
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ backend: string }> }
+) {
+  const backend = resolveMockBackend((await params).backend);
+  if (!backend) return mockNotFound();
+
+  const searchParams = new URL(request.url).searchParams;
+  const symbol = searchParams.get("symbol") ?? searchParams.get("tickers") ?? "BTC";
+  const limit = Math.min(Number(searchParams.get("limit")) || 20, 50);
+  const offset = Math.max(Number(searchParams.get("offset")) || 0, 0);
+
+  return Response.json(
+    backend === "yahoo"
+      ? generateMockYahooNews(symbol, limit)
+      : generateMockNewsSentiment(symbol, limit, offset)
+  );
+}
@@ -0,0 +1,35 @@
+import { generateMockPrediction, mockNotFound, resolveMockBackend } from "@/lib/mock";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ backend: string }> }
+) {
+  const backend = resolveMockBackend((await params).backend);
+  if (!backend) return mockNotFound();
+
+  let body: Record<string, unknown>;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ detail: "Request body must be JSON" }, { status: 400 });
+  }
+
+  const symbol = backend === "yahoo" ? body.symbol : body.base_currency;
+  if (typeof symbol !== "string" || !symbol) {
+    return Response.json({ detail: "A symbol is required" }, { status: 422 });
+  }
+
+  const prediction = generateMockPrediction({
+    symbol,
+    timeframe: String(body.timeframe ?? ""),
+    period: String(body.period ?? ""),
+    seed: new URL(request.url).searchParams.get("seed") ?? undefined,
+  });
+
+  if (backend === "yahoo") {
+    // The Yahoo service does not report ATR or MFI.
+    delete prediction.technical_indicators.atr;
+    delete prediction.technical_indicators.mfi;
+  }
+  return Response.json(prediction);
+}
@@ -0,0 +1,137 @@
+import {
+  ENDPOINT_HEADER,
+  ENDPOINT_ORIGIN_HEADER,
+  EndpointId,
+  PROXY_ERROR_HEADER,
+  getDefaultEndpointId,
+  normalizeOrigin,
+  resolveEndpoint,
+} from "@/lib/api/endpoints";
+import { resolveApiKey } from "@/lib/server/credentials";
+
+// Forwards dashboard requests to the analysis services and injects the
+// Alpha Vantage key on the server, so it never appears in the browser.
+
+// Custom origins receive the API key, so only operator-approved hosts are
+// accepted (comma-separated list).
+const ALLOWED_CUSTOM_ORIGINS = (process.env.ANALYSIS_API_ALLOWED_ORIGINS ?? "")
+  .split(",")
+  .map(normalizeOrigin)
+  .filter(Boolean);
+
+// Backends the proxy may reach, and whether they need the Alpha Vantage key.
+const BACKENDS: Record<string, { requiresApiKey: boolean }> = {
+  "api-analysis": { requiresApiKey: true },
+  "api-analysis-yahoo": { requiresApiKey: false },
+};
+
+interface ProxyParams {
+  backend: string;
+  path: string[];
+}
+
+// Answers from the proxy itself are tagged so health checks can tell them
+// apart from replies of the analysis service.
+const detail = (message: string, status: number) =>
+  Response.json({ detail: message }, { status, headers: { [PROXY_ERROR_HEADER]: "1" } });
+
+// Health probes only check that the service answers; they never carry the key.
+const isHealthProbe = (path: string[]) => path.length === 1 && path[0] === "health";
+
+const resolveUpstreamOrigin = (request: Request): string | Response => {
+  const requested = request.headers.get(ENDPOINT_HEADER) ?? getDefaultEndpointId();
+  const endpoint = resolveEndpoint({
+    id: requested as EndpointId,
+    customOrigin: request.headers.get(ENDPOINT_ORIGIN_HEADER) ?? undefined,
+  });
+
+  if (endpoint.id === "mock") {
+    return detail("The mock backend is served from /api/mock", 400);
+  }
+  if (!endpoint.origin) {
+    return detail(`No origin is configured for the ${endpoint.label} endpoint`, 400);
+  }
+  if (endpoint.id === "custom" && !ALLOWED_CUSTOM_ORIGINS.includes(endpoint.origin)) {
+    return detail(
+      `${endpoint.origin} is not in ANALYSIS_API_ALLOWED_ORIGINS on the server`,
+      403
+    );
+  }
+  return endpoint.origin;
+};
+
+async function forward(request: Request, { backend, path }: ProxyParams) {
+  const config = BACKENDS[backend];
+  if (!config) return detail("Unknown backend", 404);
+
+  const origin = resolveUpstreamOrigin(request);
+  if (origin instanceof Response) return origin;
+
+  const incoming = new URL(request.url);
+  const url = new URL(`${origin}/${backend}/${path.join("/")}`);
+  incoming.searchParams.forEach((value, name) => {
+    if (name !== "api_key") url.searchParams.append(name, value);
+  });
+
+  let body: string | undefined;
+  if (request.method === "POST") {
+    body = await request.text();
+  }
+
+  if (config.requiresApiKey && !isHealthProbe(path)) {
+    const credential = await resolveApiKey();
+    if (!credential) {
+      return detail(
+        "No Alpha Vantage API key is configured. Add one in the API key settings.",
+        401
+      );
+    }
+    if (body !== undefined) {
+      let payload: Record<string, unknown>;
+      try {
+        payload = JSON.parse(body || "{}");
+      } catch {
+        return detail("Request body must be JSON", 400);
+      }
+      body = JSON.stringify({ ...payload, api_key: credential.key });
+    } else {
+      url.searchParams.set("api_key", credential.key);
+    }
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers: {
+        Accept: "application/json",
+        ...(body !== undefined && { "Content-Type": "application/json" }),
+      },
+      body,
+      cache: "no-store",
+    });
+  } catch {
+    return detail("The analysis service could not be reached", 502);
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      "Content-Type": upstream.headers.get("Content-Type") ?? "application/json",
+    },
+  });
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<ProxyParams> }
+) {
+  return forward(request, await params);
+}
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<ProxyParams> }
+) {
+  return forward(request, await params);
+}
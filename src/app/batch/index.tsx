@@ -0,0 +1,195 @@
+import React, { FormEvent, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2, RotateCcw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import {
+  ProviderCredentials,
+  SelectField,
+} from "@/components/analysis/analysis-form";
+import { BatchResultsTable } from "@/components/analysis/batch-results-table";
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  useBatchAnalysis,
+} from "@/hooks/use-batch-analysis";
+import {
+  DATA_PROVIDERS,
+  ProviderId,
+  getProvider,
+} from "@/lib/providers";
+
+// === CONSTANTS ===
+const concurrencyOptions = [1, 2, 3, 4, 5].map((value) => ({
+  value: String(value),
+  label: `${value} at a time`,
+}));
+
+// === MAIN COMPONENT ===
+const Batch: React.FC = () => {
+  const [providerId, setProviderId] = useState<ProviderId>("alpha-vantage");
+  const provider = getProvider(providerId);
+  const [timeframe, setTimeframe] = useState(provider.defaults.timeframe);
+  const [period, setPeriod] = useState(provider.defaults.period);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [watchlist, setWatchlist] = useState<string[]>(
+    provider.symbols.map((symbol) => symbol.value)
+  );
+  const batch = useBatchAnalysis(provider);
+  const failed = batch.entries.filter((entry) => entry.status === "error").length;
+
+  const handleProviderChange = (id: ProviderId) => {
+    const next = getProvider(id);
+    setProviderId(id);
+    setTimeframe(next.defaults.timeframe);
+    setPeriod(next.defaults.period);
+    setWatchlist(next.symbols.map((symbol) => symbol.value));
+  };
+
+  const toggleSymbol = (symbol: string, checked: boolean) =>
+    setWatchlist((current) =>
+      checked ? [...current, symbol] : current.filter((value) => value !== symbol)
+    );
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    // Keep the provider's order rather than the order symbols were ticked.
+    const symbols = provider.symbols
+      .map((symbol) => symbol.value)
+      .filter((symbol) => watchlist.includes(symbol));
+    batch.start(symbols, { timeframe, period }, concurrency);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Batch Analysis</CardTitle>
+            <p className="text-sm text-gray-500">
+              Runs a prediction for every symbol on the watchlist.
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Dashboard
+            </Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <SelectField
+                label="Data Source"
+                placeholder="Select source"
+                value={provider.id}
+                options={DATA_PROVIDERS.map((p) => ({ value: p.id, label: p.label }))}
+                onChange={(value) => handleProviderChange(value as ProviderId)}
+              />
+              <SelectField
+                label="Timeframe"
+                placeholder="Select timeframe"
+                value={timeframe}
+                options={provider.timeframes}
+                onChange={setTimeframe}
+              />
+              <SelectField
+                label="Analysis Period"
+                placeholder="Select period"
+                value={period}
+                options={provider.periods}
+                onChange={setPeriod}
+              />
+              <SelectField
+                label="Concurrency"
+                placeholder="Requests in flight"
+                value={String(concurrency)}
+                options={concurrencyOptions}
+                onChange={(value) => setConcurrency(Number(value))}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Watchlist</label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {provider.symbols.map((symbol) => (
+                  <label
+                    key={symbol.value}
+                    className="flex items-center gap-2 text-sm"
+                  >
+                    <Checkbox
+                      checked={watchlist.includes(symbol.value)}
+                      onCheckedChange={(checked) =>
+                        toggleSymbol(symbol.value, checked === true)
+                      }
+                    />
+                    {symbol.label}
+                    <span className="text-gray-400">{symbol.value}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <ProviderCredentials provider={provider} />
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={batch.running || watchlist.length === 0}
+            >
+              {batch.running ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Processing
+                </>
+              ) : (
+                `Analyze ${watchlist.length} symbols`
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {batch.entries.length > 0 && (
+        <Card>
+          <CardHeader className="space-y-3">
+            <div className="flex items-center justify-between">
+              <CardTitle>Results</CardTitle>
+              <div className="flex items-center gap-4">
+                <span className="text-sm text-gray-500">
+                  {batch.finished} of {batch.entries.length} finished
+                  {failed > 0 && `, ${failed} failed`}
+                </span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={batch.running || failed === 0}
+                  onClick={() => batch.retry()}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Retry failed
+                </Button>
+              </div>
+            </div>
+            <Progress
+              value={(batch.finished / batch.entries.length) * 100}
+              className="h-2"
+            />
+          </CardHeader>
+          <CardContent>
+            <BatchResultsTable
+              entries={batch.entries}
+              onRetry={(symbol) => batch.retry([symbol])}
+              retryDisabled={batch.running}
+            />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Batch;
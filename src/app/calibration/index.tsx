@@ -0,0 +1,233 @@
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ReliabilityDiagram } from "@/components/analysis/reliability-diagram";
+import { usePredictionHistory } from "@/hooks/use-prediction-history";
+import { formatPercent } from "@/lib/format";
+import {
+  CalibrationReport,
+  CalibrationSource,
+  calibrate,
+  calibrateBySeries,
+  collectSamples,
+} from "@/lib/history";
+import { getProvider } from "@/lib/providers";
+
+// === CONSTANTS ===
+const sources: { value: CalibrationSource; label: string; description: string }[] = [
+  {
+    value: "prediction",
+    label: "Headline probability",
+    description:
+      "probability_up of each run, checked against the close of the first forecast step.",
+  },
+  {
+    value: "forecast",
+    label: "Forecast steps",
+    description:
+      "ForecastPoint.probability of every realized step, checked against the step before it.",
+  },
+];
+
+const OVERALL = "all";
+
+// === HELPERS ===
+const formatScore = (value: number | null): string =>
+  value === null ? "-" : value.toFixed(3);
+
+// === COMPONENTS ===
+const MetricTile: React.FC<{ label: string; value: string; hint?: string }> = ({
+  label,
+  value,
+  hint,
+}) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+const ReportMetrics: React.FC<{ report: CalibrationReport }> = ({ report }) => (
+  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+    <MetricTile label="Scored forecasts" value={String(report.count)} />
+    <MetricTile
+      label="Brier score"
+      value={formatScore(report.brierScore)}
+      hint={`${formatScore(report.referenceBrierScore)} for always guessing the base rate`}
+    />
+    <MetricTile
+      label="Log loss"
+      value={formatScore(report.logLoss)}
+      hint="0.693 for a coin flip"
+    />
+    <MetricTile
+      label="Went up"
+      value={report.baseRate === null ? "-" : formatPercent(report.baseRate)}
+    />
+  </div>
+);
+
+// === MAIN COMPONENT ===
+const Calibration: React.FC = () => {
+  const { records, prices, error } = usePredictionHistory();
+  const [source, setSource] = useState<CalibrationSource>("prediction");
+  const [selected, setSelected] = useState<string>(OVERALL);
+
+  const samples = useMemo(
+    () => collectSamples(records ?? [], prices, source),
+    [records, prices, source]
+  );
+  const overall = useMemo(() => calibrate(samples), [samples]);
+  const rows = useMemo(
+    () => [
+      { key: OVERALL, label: "All series", report: overall },
+      ...calibrateBySeries(samples).map((entry) => ({
+        key: entry.key,
+        label: `${entry.symbol} · ${entry.timeframe} (${
+          getProvider(entry.providerId).label
+        })`,
+        report: entry as CalibrationReport,
+      })),
+    ],
+    [samples, overall]
+  );
+  const current = rows.find((row) => row.key === selected) ?? rows[0];
+  const sourceInfo = sources.find((entry) => entry.value === source)!;
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Probability Calibration</CardTitle>
+            <p className="text-sm text-gray-500">{sourceInfo.description}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/history">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                History
+              </Link>
+            </Button>
+            <Select
+              value={source}
+              onValueChange={(value: string) => {
+                setSource(value as CalibrationSource);
+                setSelected(OVERALL);
+              }}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sources.map((entry) => (
+                  <SelectItem key={entry.value} value={entry.value}>
+                    {entry.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!records ? (
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          ) : (
+            <ReportMetrics report={overall} />
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {records && samples.length === 0 && (
+        <Alert>
+          <AlertTitle>Nothing to calibrate yet</AlertTitle>
+          <AlertDescription>
+            Calibration needs stored predictions whose forecast dates have
+            passed. Run analyses over a few days, then use &quot;Update
+            outcomes&quot; on the history page.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {samples.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Reliability Diagram</CardTitle>
+              <p className="text-sm text-gray-500">
+                {current.label} · {current.report.count} forecasts in 10 bins
+              </p>
+            </CardHeader>
+            <CardContent>
+              <ReliabilityDiagram bins={current.report.bins} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>By Symbol and Timeframe</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="py-2 text-left">Series</th>
+                      <th className="py-2 text-right">Forecasts</th>
+                      <th className="py-2 text-right">Brier</th>
+                      <th className="py-2 text-right">Reference</th>
+                      <th className="py-2 text-right">Log loss</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(({ key, label, report }) => (
+                      <tr
+                        key={key}
+                        onClick={() => setSelected(key)}
+                        className={`border-b cursor-pointer hover:bg-gray-50 ${
+                          key === selected ? "bg-gray-100 font-medium" : ""
+                        }`}
+                      >
+                        <td className="py-2">{label}</td>
+                        <td className="py-2 text-right">{report.count}</td>
+                        <td className="py-2 text-right">
+                          {formatScore(report.brierScore)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatScore(report.referenceBrierScore)}
+                        </td>
+                        <td className="py-2 text-right">
+                          {formatScore(report.logLoss)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Calibration;
@@ -0,0 +1,10 @@
+"use client";
+
+import React from "react";
+import Calibration from "./index";
+
+export default function Page() {
+    return (
+        <Calibration/>
+    );
+}
@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { AnalysisForm } from "@/components/analysis/analysis-form";
+import { ComparisonForecast } from "@/components/analysis/comparison-forecast";
+import { ComparisonTable } from "@/components/analysis/comparison-table";
+import { PredictionResultsCard } from "@/components/analysis/prediction-results-card";
+import { PredictionData, getErrorMessage } from "@/lib/api";
+import {
+  compareForecasts,
+  compareIndicators,
+  compareSummary,
+} from "@/lib/comparison";
+import { savePrediction } from "@/lib/history";
+import {
+  AnalysisParams,
+  DataProvider,
+  alphaVantageProvider,
+  toYahooParams,
+  yahooProvider,
+} from "@/lib/providers";
+
+// === TYPES ===
+type SideResult =
+  | { status: "ok"; prediction: PredictionData }
+  | { status: "error"; message: string };
+
+// === HELPERS ===
+const runSide = async (
+  provider: DataProvider,
+  params: AnalysisParams
+): Promise<SideResult> => {
+  try {
+    const prediction = await provider.fetchPrediction(params);
+    savePrediction(provider.id, params, prediction).catch((err) =>
+      console.error("Error saving prediction history:", err)
+    );
+    return { status: "ok", prediction };
+  } catch (err) {
+    console.error(`${provider.label} fetch error:`, err);
+    return { status: "error", message: getErrorMessage(err) };
+  }
+};
+
+// === COMPONENTS ===
+const SideColumn: React.FC<{
+  provider: DataProvider;
+  params: AnalysisParams;
+  result: SideResult;
+}> = ({ provider, params, result }) => (
+  <div className="space-y-2">
+    <h3 className="font-semibold">
+      {provider.label}
+      <span className="ml-2 text-sm font-normal text-gray-500">
+        {params.symbol} · {params.timeframe} · {params.period}
+      </span>
+    </h3>
+    {result.status === "ok" ? (
+      <PredictionResultsCard prediction={result.prediction} />
+    ) : (
+      <Alert variant="destructive">
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription>{result.message}</AlertDescription>
+      </Alert>
+    )}
+  </div>
+);
+
+// === MAIN COMPONENT ===
+const Compare: React.FC = () => {
+  const [params, setParams] = useState<AnalysisParams>(alphaVantageProvider.defaults);
+  const [loading, setLoading] = useState(false);
+  const [results, setResults] = useState<{
+    params: [AnalysisParams, AnalysisParams];
+    left: SideResult;
+    right: SideResult;
+  } | null>(null);
+
+  const yahooParams = toYahooParams(params);
+
+  const handleSubmit = async () => {
+    setLoading(true);
+    const [left, right] = await Promise.all([
+      runSide(alphaVantageProvider, params),
+      runSide(yahooProvider, yahooParams),
+    ]);
+    setResults({ params: [params, yahooParams], left, right });
+    setLoading(false);
+  };
+
+  const comparison = useMemo(() => {
+    if (results?.left.status !== "ok" || results.right.status !== "ok") {
+      return null;
+    }
+    const left = results.left.prediction;
+    const right = results.right.prediction;
+    const summary = compareSummary(left, right);
+    const indicators = compareIndicators(
+      left.technical_indicators,
+      right.technical_indicators
+    );
+    const forecast = compareForecasts(left.forecast, right.forecast);
+    const flags = [
+      ...summary.map((row) => row.disagree),
+      ...indicators.map((row) => row.disagree),
+      ...forecast.map((step) => step.directionDisagrees || step.intervalsDisjoint),
+    ];
+    return {
+      summary,
+      indicators,
+      forecast,
+      disagreements: flags.filter(Boolean).length,
+      rows: flags.length,
+    };
+  }, [results]);
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Compare Backends</CardTitle>
+            <p className="text-sm text-gray-500">
+              Runs Alpha Vantage ({params.symbol}/USD) and Yahoo Finance (
+              {yahooParams.symbol}, {yahooParams.timeframe},{" "}
+              {yahooParams.period}) for the same asset.
+            </p>
+          </div>
+          <Button asChild variant="outline" size="sm">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Dashboard
+            </Link>
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <AnalysisForm
+            provider={alphaVantageProvider}
+            params={params}
+            onParamsChange={setParams}
+            onSubmit={handleSubmit}
+            loading={loading}
+          />
+        </CardContent>
+      </Card>
+
+      {loading && <Loader2 className="h-8 w-8 animate-spin mx-auto" />}
+
+      {results && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <SideColumn
+            provider={alphaVantageProvider}
+            params={results.params[0]}
+            result={results.left}
+          />
+          <SideColumn
+            provider={yahooProvider}
+            params={results.params[1]}
+            result={results.right}
+          />
+        </div>
+      )}
+
+      {comparison && (
+        <>
+          <Alert>
+            <AlertTitle>
+              {comparison.disagreements === 0
+                ? "The backends agree"
+                : `${comparison.disagreements} of ${comparison.rows} rows disagree`}
+            </AlertTitle>
+            <AlertDescription>
+              Highlighted rows differ in direction or signal, or by more than
+              10 points of probability or accuracy, or 1% in price.
+            </AlertDescription>
+          </Alert>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle>Prediction</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ComparisonTable
+                  rows={comparison.summary}
+                  leftLabel={alphaVantageProvider.label}
+                  rightLabel={yahooProvider.label}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle>Technical Indicators</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ComparisonTable
+                  rows={comparison.indicators}
+                  leftLabel={alphaVantageProvider.label}
+                  rightLabel={yahooProvider.label}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Forecast Paths</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ComparisonForecast
+                steps={comparison.forecast}
+                leftLabel={alphaVantageProvider.label}
+                rightLabel={yahooProvider.label}
+              />
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,10 @@
+"use client";
+
+import React from "react";
+import Compare from "./index";
+
+export default function Page() {
+    return (
+        <Compare/>
+    );
+}
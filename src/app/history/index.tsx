@@ -0,0 +1,398 @@
+import React, { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ChartSpline,
+  ChevronDown,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  Trash2,
+} from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { DateTime } from "@/components/analysis/date-time";
+import { getErrorMessage } from "@/lib/api";
+import { formatPercent, formatPrice } from "@/lib/format";
+import {
+  PredictionRecord,
+  PredictionScore,
+  clearHistory,
+  dayKey,
+  deletePrediction,
+  recordRealizedPrices,
+  scoreHistory,
+  scorePrediction,
+  seriesKey,
+} from "@/lib/history";
+import { getProvider } from "@/lib/providers";
+import { usePredictionHistory } from "@/hooks/use-prediction-history";
+
+// === HELPERS ===
+const formatRatio = (value: number | null): string =>
+  value === null ? "-" : formatPercent(value);
+
+// A step is due once its date has passed but no close has been recorded.
+const hasDueSteps = (score: PredictionScore): boolean => {
+  const today = new Date().toISOString().slice(0, 10);
+  return score.steps.some(
+    (step) => step.realized === null && dayKey(step.point.date) <= today
+  );
+};
+
+// === COMPONENTS ===
+const SummaryTile: React.FC<{ label: string; value: string; hint?: string }> = ({
+  label,
+  value,
+  hint,
+}) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className="text-2xl font-bold">{value}</p>
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+const StepTable: React.FC<{ score: PredictionScore }> = ({ score }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="border-b text-gray-500">
+        <th className="py-1 text-left">Date</th>
+        <th className="py-1 text-right">Predicted</th>
+        <th className="py-1 text-right">Realized</th>
+        <th className="py-1 text-center">Direction</th>
+        <th className="py-1 text-right">Abs. error</th>
+        <th className="py-1 text-right">Interval</th>
+      </tr>
+    </thead>
+    <tbody>
+      {score.steps.map((step) => (
+        <tr key={step.step} className="border-b last:border-0">
+          <td className="py-1">
+            <DateTime value={step.point.date} />
+          </td>
+          <td className="py-1 text-right">${formatPrice(step.point.predicted_price)}</td>
+          <td className="py-1 text-right">
+            {step.realized === null ? "pending" : `$${formatPrice(step.realized)}`}
+          </td>
+          <td className="py-1 text-center">
+            <span
+              className={
+                step.directionHit === null
+                  ? "text-gray-400"
+                  : step.directionHit
+                  ? "text-green-600"
+                  : "text-red-600"
+              }
+            >
+              {step.point.direction}
+              {step.directionHit !== null && (step.directionHit ? " ✓" : " ✗")}
+            </span>
+          </td>
+          <td className="py-1 text-right">
+            {step.absoluteError === null ? "-" : `$${formatPrice(step.absoluteError)}`}
+          </td>
+          <td className="py-1 text-right">
+            {step.withinInterval === null
+              ? "-"
+              : step.withinInterval
+              ? "inside"
+              : "outside"}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const HistoryRow: React.FC<{
+  record: PredictionRecord;
+  score: PredictionScore;
+  onDelete: () => void;
+}> = ({ record, score, onDelete }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { prediction } = record;
+  const confidence =
+    prediction.prediction === "UP"
+      ? prediction.probability_up
+      : prediction.probability_down;
+
+  return (
+    <>
+      <tr
+        className="border-b cursor-pointer hover:bg-gray-50"
+        onClick={() => setExpanded((open) => !open)}
+      >
+        <td className="py-2">
+          <div className="flex items-center">
+            {expanded ? (
+              <ChevronDown className="h-4 w-4 mr-1" />
+            ) : (
+              <ChevronRight className="h-4 w-4 mr-1" />
+            )}
+            <DateTime value={record.createdAt} />
+          </div>
+        </td>
+        <td className="py-2">
+          <div className="font-medium">{record.params.symbol}</div>
+          <div className="text-xs text-gray-500">
+            {getProvider(record.providerId).label} · {record.params.timeframe} ·{" "}
+            {record.params.period}
+          </div>
+        </td>
+        <td className="py-2">
+          <span
+            className={`flex items-center ${
+              prediction.prediction === "UP" ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {prediction.prediction === "UP" ? (
+              <ArrowUp className="h-4 w-4" />
+            ) : (
+              <ArrowDown className="h-4 w-4" />
+            )}
+            {formatPercent(confidence)}
+          </span>
+        </td>
+        <td className="py-2 text-right">{formatPercent(prediction.accuracy)}</td>
+        <td className="py-2 text-right">
+          {score.scored}/{score.steps.length}
+        </td>
+        <td className="py-2 text-right">{formatRatio(score.directionHitRate)}</td>
+        <td className="py-2 text-right">
+          {formatRatio(score.meanAbsolutePercentError)}
+        </td>
+        <td className="py-2 text-right">{formatRatio(score.intervalCoverage)}</td>
+        <td className="py-2 text-right">
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-8 w-8"
+            aria-label="Delete entry"
+            onClick={(e: React.MouseEvent) => {
+              e.stopPropagation();
+              onDelete();
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </td>
+      </tr>
+      {expanded && (
+        <tr className="border-b bg-gray-50">
+          <td colSpan={9} className="px-6 py-2">
+            <StepTable score={score} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+};
+
+// === MAIN COMPONENT ===
+const History: React.FC = () => {
+  const { records, prices, error: loadError, reload } = usePredictionHistory();
+  const [updating, setUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const scores = useMemo(
+    () =>
+      new Map(
+        (records ?? []).map((record) => [
+          record.id,
+          scorePrediction(
+            record,
+            prices.get(seriesKey(record.providerId, record.params))
+          ),
+        ])
+      ),
+    [records, prices]
+  );
+  const overall = useMemo(() => scoreHistory([...scores.values()]), [scores]);
+
+  // Re-runs the most recent analysis of every series with steps that are due
+  // and keeps only its closes; the new forecast itself is not logged.
+  const handleUpdateOutcomes = async () => {
+    if (!records) return;
+    setUpdating(true);
+    setError(null);
+
+    const due = new Map<string, PredictionRecord>();
+    for (const record of records) {
+      const key = seriesKey(record.providerId, record.params);
+      if (!due.has(key) && hasDueSteps(scores.get(record.id)!)) {
+        due.set(key, record);
+      }
+    }
+
+    const failures: string[] = [];
+    for (const record of due.values()) {
+      try {
+        const result = await getProvider(record.providerId).fetchPrediction(
+          record.params
+        );
+        if (result.ohlcv?.length) {
+          await recordRealizedPrices(record.providerId, record.params, result.ohlcv);
+        } else {
+          failures.push(
+            `${record.params.symbol}: backend returned no price history`
+          );
+        }
+      } catch (err) {
+        failures.push(`${record.params.symbol}: ${getErrorMessage(err)}`);
+      }
+    }
+
+    if (failures.length) setError(failures.join("; "));
+    await reload();
+    setUpdating(false);
+  };
+
+  const handleDelete = async (id: number) => {
+    setError(null);
+    try {
+      await deletePrediction(id);
+      await reload();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Delete all stored predictions and prices?")) return;
+    setError(null);
+    try {
+      await clearHistory();
+      await reload();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Prediction History</CardTitle>
+            <p className="text-sm text-gray-500">
+              Every analysis run in this browser, scored against the closes
+              that followed it.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/">
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Dashboard
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/calibration">
+                <ChartSpline className="h-4 w-4 mr-1" />
+                Calibration
+              </Link>
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={handleUpdateOutcomes}
+              disabled={updating || !records?.length}
+            >
+              {updating ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <RefreshCw className="h-4 w-4 mr-1" />
+              )}
+              Update outcomes
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              onClick={handleClear}
+              disabled={!records?.length}
+            >
+              Clear
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <SummaryTile
+              label="Predictions"
+              value={String(records?.length ?? 0)}
+              hint={`${overall.scored} of ${overall.steps.length} steps realized`}
+            />
+            <SummaryTile
+              label="Direction hit rate"
+              value={formatRatio(overall.directionHitRate)}
+            />
+            <SummaryTile
+              label="Mean absolute error"
+              value={formatRatio(overall.meanAbsolutePercentError)}
+              hint="of the realized price"
+            />
+            <SummaryTile
+              label="Inside interval"
+              value={formatRatio(overall.intervalCoverage)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {(error || loadError) && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error ?? loadError}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="p-4">
+          {!records ? (
+            <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+          ) : records.length === 0 ? (
+            <p className="text-center text-gray-500">
+              No predictions yet. Run an analysis and it will show up here.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="py-2 text-left">Run</th>
+                    <th className="py-2 text-left">Series</th>
+                    <th className="py-2 text-left">Call</th>
+                    <th className="py-2 text-right">Reported accuracy</th>
+                    <th className="py-2 text-right">Realized</th>
+                    <th className="py-2 text-right">Hit rate</th>
+                    <th className="py-2 text-right">Abs. error</th>
+                    <th className="py-2 text-right">In interval</th>
+                    <th className="py-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {records.map((record) => (
+                    <HistoryRow
+                      key={record.id}
+                      record={record}
+                      score={scores.get(record.id)!}
+                      onDelete={() => handleDelete(record.id)}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default History;
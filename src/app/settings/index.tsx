@@ -0,0 +1,253 @@
+import React, { useEffect, useState, FormEvent } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  BackendHealth,
+  BackendPath,
+  ENDPOINT_PRESETS,
+  EndpointId,
+  checkBackendHealth,
+  getDefaultEndpointId,
+  resolveEndpoint,
+} from "@/lib/api";
+import { useAnalysisEndpoint } from "@/hooks/use-analysis-endpoint";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { TIME_ZONES, TimeZoneId } from "@/lib/dates";
+
+// === CONSTANTS ===
+const backends: { value: BackendPath; label: string }[] = [
+  { value: "api-analysis", label: "Alpha Vantage analysis" },
+  { value: "api-analysis-yahoo", label: "Yahoo Finance analysis" },
+];
+
+// === COMPONENTS ===
+const HealthRow: React.FC<{ label: string; health: BackendHealth | null }> = ({
+  label,
+  health,
+}) => (
+  <div className="p-3 bg-gray-50 rounded-lg flex justify-between items-center">
+    <span className="font-medium">{label}</span>
+    {!health ? (
+      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+    ) : health.problem ? (
+      <span className="flex items-center text-sm text-yellow-700">
+        <AlertTriangle className="h-4 w-4 mr-1" />
+        Misconfigured · {health.problem}
+      </span>
+    ) : health.reachable ? (
+      <span className="flex items-center text-sm text-green-600">
+        <CheckCircle2 className="h-4 w-4 mr-1" />
+        Reachable · {health.latencyMs} ms
+      </span>
+    ) : (
+      <span className="flex items-center text-sm text-red-600">
+        <XCircle className="h-4 w-4 mr-1" />
+        Unreachable{health.status ? ` (HTTP ${health.status})` : ""}
+      </span>
+    )}
+  </div>
+);
+
+const TimeZoneCard: React.FC = () => {
+  const { timeZone, update } = useTimeZone();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Date and Time</CardTitle>
+        <p className="text-sm text-gray-500">
+          Time zone for news, forecasts and reports. Stored in this browser only.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <label className="text-sm font-medium">Time zone</label>
+        <Select
+          value={timeZone}
+          onValueChange={(value: string) => update(value as TimeZoneId)}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select time zone" />
+          </SelectTrigger>
+          <SelectContent>
+            {TIME_ZONES.map((zone) => (
+              <SelectItem key={zone.value} value={zone.value}>
+                {zone.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardContent>
+    </Card>
+  );
+};
+
+// === MAIN COMPONENT ===
+const Settings: React.FC = () => {
+  const { selection, endpoint, update } = useAnalysisEndpoint();
+  const [draftId, setDraftId] = useState<EndpointId>(selection.id);
+  const [customOrigin, setCustomOrigin] = useState<string>("");
+  const [health, setHealth] = useState<
+    Partial<Record<BackendPath, BackendHealth>>
+  >({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraftId(selection.id);
+    setCustomOrigin(selection.customOrigin ?? "");
+  }, [selection]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHealth({});
+    backends.forEach(({ value }) =>
+      checkBackendHealth(endpoint, value).then((result) => {
+        if (!cancelled) setHealth((prev) => ({ ...prev, [value]: result }));
+      })
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint]);
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    if (draftId === "custom") {
+      try {
+        const url = new URL(customOrigin.trim());
+        if (url.protocol !== "http:" && url.protocol !== "https:") {
+          throw new Error();
+        }
+      } catch {
+        setError("Enter a full http(s) URL, e.g. https://analysis.example.com");
+        return;
+      }
+    }
+
+    const next = resolveEndpoint({ id: draftId, customOrigin });
+    if (!next.origin) {
+      setError(`The ${next.label} endpoint has no origin configured.`);
+      return;
+    }
+    update(
+      draftId === "custom" ? { id: draftId, customOrigin } : { id: draftId }
+    );
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Backend Endpoint</CardTitle>
+          <p className="text-sm text-gray-500">
+            Default from environment:{" "}
+            {resolveEndpoint({ id: getDefaultEndpointId() }).label}. Changes
+            are stored in this browser only.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Environment</label>
+              <Select
+                value={draftId}
+                onValueChange={(value: string) =>
+                  setDraftId(value as EndpointId)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select endpoint" />
+                </SelectTrigger>
+                <SelectContent>
+                  {ENDPOINT_PRESETS.map((preset) => (
+                    <SelectItem
+                      key={preset.id}
+                      value={preset.id}
+                      disabled={!preset.origin}
+                    >
+                      {preset.label}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {preset.origin ?? "not configured"}
+                      </span>
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draftId === "custom" && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Custom origin</label>
+                <Input
+                  type="url"
+                  value={customOrigin}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setCustomOrigin(e.target.value)
+                  }
+                  placeholder="https://analysis.example.com"
+                />
+                <p className="text-xs text-gray-500">
+                  The server only forwards to origins listed in
+                  ANALYSIS_API_ALLOWED_ORIGINS.
+                </p>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button type="submit" className="flex-1">
+                Save
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => update(null)}
+              >
+                Reset to default
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <TimeZoneCard />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Connection Status</CardTitle>
+          <p className="text-sm text-gray-500">
+            Currently using {endpoint.label}
+            {endpoint.origin ? ` (${endpoint.origin})` : ""}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {backends.map(({ value, label }) => (
+              <HealthRow key={value} label={label} health={health[value] ?? null} />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Settings;
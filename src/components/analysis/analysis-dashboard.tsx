@@ -0,0 +1,457 @@
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { GitCompare, History, ListChecks, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { BackendStatus } from "@/components/backend-status";
+import {
+  MarketMovers,
+  NewsSentiment,
+  PredictionData,
+  YahooNewsResponse,
+  getErrorMessage,
+} from "@/lib/api";
+import { marketDataset, predictionDataset } from "@/lib/export";
+import { savePrediction } from "@/lib/history";
+import { appendNewsPage } from "@/lib/news";
+import {
+  AnalysisParams,
+  DATA_PROVIDERS,
+  DataProvider,
+  ProviderId,
+  analysisSearch,
+  getProvider,
+  isProviderId,
+  paramsFromSearch,
+  providerFromSearch,
+  runFromSearch,
+} from "@/lib/providers";
+import { AnalysisForm } from "./analysis-form";
+import { BacktestPanel } from "./backtest-panel";
+import { ExplanationCard } from "./explanation-card";
+import { ExportMenu } from "./export-menu";
+import { ForecastChart } from "./forecast-chart";
+import { ForecastTable } from "./forecast-table";
+import { HeadlineList } from "./headline-list";
+import { MarketOverview } from "./market-movers";
+import { NewsSentimentPanel } from "./news-sentiment";
+import { PredictionResultsCard } from "./prediction-results-card";
+import { PriceChart } from "./price-chart";
+import { ReportButton } from "./report-button";
+import { RiskPanel } from "./risk-panel";
+import { TechnicalAnalysisCard } from "./technical-analysis-card";
+import { TimeframeMatrix } from "./timeframe-matrix";
+
+const sameParams = (a: AnalysisParams, b: AnalysisParams): boolean =>
+  a.symbol === b.symbol && a.timeframe === b.timeframe && a.period === b.period;
+
+interface AnalysisDashboardProps {
+  providerId: ProviderId;
+  // When set, the form shows a data-source picker instead of a fixed provider.
+  allowProviderChange?: boolean;
+}
+
+export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
+  providerId: initialProviderId,
+  allowProviderChange = false,
+}) => {
+  const [providerId, setProviderId] = useState<ProviderId>(initialProviderId);
+  const provider = getProvider(providerId);
+  const [params, setParams] = useState<AnalysisParams>(provider.defaults);
+
+  const [prediction, setPrediction] = useState<PredictionData | null>(null);
+  // The params `prediction` was fetched with; the form may have moved on.
+  const [predictionParams, setPredictionParams] = useState<AnalysisParams>(params);
+  const [marketMovers, setMarketMovers] = useState<MarketMovers | null>(null);
+  const [headlines, setHeadlines] = useState<YahooNewsResponse | null>(null);
+  const [newsSentiment, setNewsSentiment] = useState<NewsSentiment | null>(null);
+  const [newsLoading, setNewsLoading] = useState(false);
+  const [newsError, setNewsError] = useState<string | null>(null);
+  const [newsLoadingMore, setNewsLoadingMore] = useState(false);
+  const [newsMoreError, setNewsMoreError] = useState<string | null>(null);
+  // Bumped for every fresh news request and provider change, so a late reply
+  // to an older request is dropped.
+  const newsRequest = useRef(0);
+  const [loading, setLoading] = useState<boolean>(false);
+  // Bumped for every analysis run and provider change, so the result of an
+  // older run never lands under the current one.
+  const analysisRequest = useRef(0);
+  const [marketLoading, setMarketLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const predictionRef = useRef<HTMLDivElement>(null);
+  // The form is restored from the URL once; until then the URL is left alone.
+  const [urlRestored, setUrlRestored] = useState(false);
+  const restoring = useRef(false);
+
+  const handleProviderChange = (id: ProviderId) => {
+    analysisRequest.current++;
+    setProviderId(id);
+    setParams(getProvider(id).defaults);
+    setPrediction(null);
+    setMarketMovers(null);
+    setHeadlines(null);
+    newsRequest.current++;
+    setNewsSentiment(null);
+    setNewsLoading(false);
+    setNewsError(null);
+    setNewsLoadingMore(false);
+    setNewsMoreError(null);
+    setLoading(false);
+    setMarketLoading(false);
+    setError(null);
+  };
+
+  // `id` is the analysis run the fetch belongs to.
+  const fetchMarketMovers = async (target: DataProvider, id: number) => {
+    setMarketLoading(true);
+    try {
+      const movers = await target.fetchMarketMovers();
+      if (id !== analysisRequest.current) return;
+      setMarketMovers(movers);
+    } catch (err) {
+      if (id !== analysisRequest.current) return;
+      console.error("Error fetching market data:", err);
+      setError(getErrorMessage(err));
+    } finally {
+      if (id === analysisRequest.current) setMarketLoading(false);
+    }
+  };
+
+  const fetchHeadlines = async (
+    target: DataProvider,
+    request: AnalysisParams,
+    id: number
+  ) => {
+    if (!target.fetchHeadlines) return;
+    try {
+      const news = await target.fetchHeadlines(request);
+      if (id !== analysisRequest.current) return;
+      setHeadlines(news);
+    } catch (err) {
+      // Headlines are supplementary; keep the prediction on screen.
+      console.error("Error fetching news:", err);
+    }
+  };
+
+  const fetchNewsSentiment = async (target: DataProvider, request: AnalysisParams) => {
+    if (!target.fetchNewsSentiment) return;
+    const id = ++newsRequest.current;
+    setNewsLoading(true);
+    setNewsError(null);
+    setNewsLoadingMore(false);
+    setNewsMoreError(null);
+    try {
+      const news = await target.fetchNewsSentiment(request);
+      if (id !== newsRequest.current) return;
+      setNewsSentiment(news);
+    } catch (err) {
+      if (id !== newsRequest.current) return;
+      // Shown on the News & Sentiment tab only; the prediction stays usable.
+      console.error("Error fetching news sentiment:", err);
+      setNewsSentiment(null);
+      setNewsError(getErrorMessage(err));
+    } finally {
+      if (id === newsRequest.current) setNewsLoading(false);
+    }
+  };
+
+  // Appends the backend's next page of articles to the ones loaded.
+  const fetchMoreNews = async () => {
+    if (!provider.fetchNewsSentiment || !newsSentiment || newsLoadingMore) return;
+    const request = newsRequest.current;
+    setNewsLoadingMore(true);
+    setNewsMoreError(null);
+    try {
+      const page = await provider.fetchNewsSentiment(
+        predictionParams,
+        newsSentiment.items.length
+      );
+      if (request !== newsRequest.current) return;
+      setNewsSentiment((current) => current && appendNewsPage(current, page));
+    } catch (err) {
+      if (request !== newsRequest.current) return;
+      console.error("Error fetching more news:", err);
+      setNewsMoreError(getErrorMessage(err));
+    } finally {
+      if (request === newsRequest.current) setNewsLoadingMore(false);
+    }
+  };
+
+  const runAnalysis = async (target: DataProvider, request: AnalysisParams) => {
+    const id = ++analysisRequest.current;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await target.fetchPrediction(request);
+      if (id !== analysisRequest.current) return;
+      setPrediction(result);
+      setPredictionParams(request);
+      savePrediction(target.id, request, result).catch((err) =>
+        // The history is a convenience; a full or blocked store must not
+        // hide the result.
+        console.error("Error saving prediction history:", err)
+      );
+
+      fetchMarketMovers(target, id);
+      fetchHeadlines(target, request, id);
+      fetchNewsSentiment(target, request);
+    } catch (err) {
+      if (id !== analysisRequest.current) return;
+      setError(getErrorMessage(err));
+      console.error("Fetch error:", err);
+    } finally {
+      if (id === analysisRequest.current) setLoading(false);
+    }
+  };
+
+  const handleSubmit = () => runAnalysis(provider, params);
+
+  // The restore below runs once, but must call the current runAnalysis.
+  const runAnalysisRef = useRef(runAnalysis);
+  useEffect(() => {
+    runAnalysisRef.current = runAnalysis;
+  });
+
+  // Pre-fill the form from a shared link such as
+  // /home?base=ETH&tf=weekly&period=90&run=1, and run it when asked to. Only
+  // the URL the page was opened with is restored.
+  useEffect(() => {
+    if (restoring.current) return;
+    restoring.current = true;
+    const search = new URLSearchParams(window.location.search);
+    const sourceId = providerFromSearch(search);
+    const target = getProvider(
+      allowProviderChange && isProviderId(sourceId) ? sourceId : initialProviderId
+    );
+    const request = { ...target.defaults, ...paramsFromSearch(target, search) };
+    setProviderId(target.id);
+    setParams(request);
+    setUrlRestored(true);
+    if (runFromSearch(search)) runAnalysisRef.current(target, request);
+  }, [allowProviderChange, initialProviderId]);
+
+  // Keep the URL in step with the form so a refresh or a shared link shows the
+  // same analysis. `run=1` is only kept while the result matches the form.
+  useEffect(() => {
+    if (!urlRestored) return;
+    const search = analysisSearch(
+      new URLSearchParams(window.location.search),
+      provider,
+      params,
+      {
+        run: prediction !== null && sameParams(params, predictionParams),
+        includeProvider: allowProviderChange,
+      }
+    );
+    const query = search.toString();
+    window.history.replaceState(
+      window.history.state,
+      "",
+      `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`
+    );
+  }, [urlRestored, provider, params, prediction, predictionParams, allowProviderChange]);
+
+  return (
+    <div className="max-w-7xl mx-auto p-4 space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Cryptocurrency Analysis Dashboard</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button asChild variant="outline" size="sm">
+              <Link href="/batch">
+                <ListChecks className="h-4 w-4 mr-1" />
+                Batch
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/compare">
+                <GitCompare className="h-4 w-4 mr-1" />
+                Compare
+              </Link>
+            </Button>
+            <Button asChild variant="outline" size="sm">
+              <Link href="/history">
+                <History className="h-4 w-4 mr-1" />
+                History
+              </Link>
+            </Button>
+            <BackendStatus backend={provider.backend} />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <AnalysisForm
+            provider={provider}
+            providers={allowProviderChange ? DATA_PROVIDERS : undefined}
+            onProviderChange={allowProviderChange ? handleProviderChange : undefined}
+            params={params}
+            onParamsChange={setParams}
+            onSubmit={handleSubmit}
+            loading={loading}
+          />
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>Error</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <Tabs defaultValue="prediction" className="space-y-4">
+        <TabsList className="w-full">
+          <TabsTrigger value="prediction">Price Prediction</TabsTrigger>
+          <TabsTrigger value="timeframes">Timeframes</TabsTrigger>
+          <TabsTrigger value="backtest">Backtest</TabsTrigger>
+          <TabsTrigger value="market">Market Overview</TabsTrigger>
+          {provider.fetchHeadlines && (
+            <TabsTrigger value="news">News</TabsTrigger>
+          )}
+          {provider.fetchNewsSentiment && (
+            <TabsTrigger value="sentiment">News &amp; Sentiment</TabsTrigger>
+          )}
+        </TabsList>
+
+        <TabsContent value="prediction">
+          {prediction && (
+            <div ref={predictionRef} className="space-y-4">
+              <div className="flex justify-end gap-2">
+                <ReportButton
+                  provider={provider}
+                  params={predictionParams}
+                  prediction={prediction}
+                  marketMovers={marketMovers}
+                  sentiment={newsSentiment?.sentiment_summary}
+                  chartsRef={predictionRef}
+                  onError={setError}
+                />
+                <ExportMenu
+                  dataset={() => predictionDataset(provider, predictionParams, prediction)}
+                  onError={setError}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <PredictionResultsCard prediction={prediction} />
+                <TechnicalAnalysisCard
+                  indicators={prediction.technical_indicators}
+                  candles={prediction.ohlcv}
+                />
+              </div>
+
+              <ExplanationCard prediction={prediction} />
+
+              <RiskPanel prediction={prediction} />
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Price Charts and Analysis</CardTitle>
+                </CardHeader>
+                <CardContent data-report-chart="Price Chart">
+                  {prediction.ohlcv?.length ? (
+                    <PriceChart candles={prediction.ohlcv} />
+                  ) : (
+                    <div className="aspect-w-16 aspect-h-9 bg-white rounded-lg overflow-hidden">
+                      <img
+                        src={`data:image/png;base64,${prediction.plot_base64}`}
+                        alt="Price Analysis Charts"
+                        className="object-contain w-full h-full"
+                      />
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Price Forecast</CardTitle>
+                  <p className="text-sm text-gray-500">
+                    Next {prediction.forecast.length} periods prediction with
+                    confidence intervals
+                  </p>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div data-report-chart="Price Forecast">
+                    <ForecastChart
+                      forecast={prediction.forecast}
+                      history={prediction.ohlcv}
+                      currentPrice={prediction.current_price}
+                    />
+                  </div>
+                  <ForecastTable forecast={prediction.forecast} />
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="timeframes">
+          <TimeframeMatrix provider={provider} params={params} />
+        </TabsContent>
+
+        <TabsContent value="backtest">
+          {prediction?.ohlcv?.length ? (
+            <BacktestPanel
+              candles={prediction.ohlcv}
+              providerId={provider.id}
+              params={predictionParams}
+            />
+          ) : (
+            <Card>
+              <CardContent className="p-4 text-sm text-gray-500">
+                Run an analysis with price history to backtest a signal rule on it.
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="market">
+          {marketLoading ? (
+            <Card>
+              <CardContent className="p-4">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+              </CardContent>
+            </Card>
+          ) : (
+            marketMovers && (
+              <div className="space-y-4">
+                <div className="flex justify-end">
+                  <ExportMenu
+                    dataset={() => marketDataset(provider, marketMovers)}
+                    onError={setError}
+                  />
+                </div>
+                <MarketOverview marketMovers={marketMovers} />
+              </div>
+            )
+          )}
+        </TabsContent>
+
+        {provider.fetchHeadlines && (
+          <TabsContent value="news">
+            {headlines && <HeadlineList news={headlines} />}
+          </TabsContent>
+        )}
+
+        {provider.fetchNewsSentiment && (
+          <TabsContent value="sentiment">
+            <NewsSentimentPanel
+              news={newsSentiment}
+              symbol={predictionParams.symbol}
+              candles={prediction?.ohlcv}
+              loading={newsLoading}
+              error={newsError}
+              onRetry={() => fetchNewsSentiment(provider, predictionParams)}
+              loadingMore={newsLoadingMore}
+              loadMoreError={newsMoreError}
+              onLoadMore={fetchMoreNews}
+            />
+          </TabsContent>
+        )}
+      </Tabs>
+    </div>
+  );
+};
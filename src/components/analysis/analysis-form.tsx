@@ -0,0 +1,183 @@
+import React, { FormEvent } from "react";
+import { Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ApiKeySettings } from "@/components/api-key-settings";
+import { useCredentialStatus } from "@/hooks/use-credential-status";
+import type {
+  AnalysisParams,
+  CredentialRequirement,
+  DataProvider,
+  ProviderId,
+  ProviderOption,
+} from "@/lib/providers";
+
+interface AnalysisFormProps {
+  provider: DataProvider;
+  providers?: readonly DataProvider[];
+  onProviderChange?: (id: ProviderId) => void;
+  params: AnalysisParams;
+  onParamsChange: (params: AnalysisParams) => void;
+  onSubmit: () => void;
+  loading: boolean;
+}
+
+// Tailwind only ships classes it can see, so the column counts are spelled out.
+const GRID_COLUMNS: Record<number, string> = {
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-4",
+  5: "md:grid-cols-5",
+};
+
+export const SelectField: React.FC<{
+  label: string;
+  placeholder: string;
+  value: string;
+  options: readonly ProviderOption[];
+  onChange: (value: string) => void;
+}> = ({ label, placeholder, value, options, onChange }) => (
+  <div className="space-y-2">
+    <label className="text-sm font-medium">{label}</label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export const NumberField: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}> = ({ label, value, onChange, min = 0, max, step = 1 }) => (
+  <div className="space-y-2">
+    <label className="text-sm font-medium">{label}</label>
+    <Input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+        onChange(Number(e.target.value))
+      }
+    />
+  </div>
+);
+
+const AlphaVantageKeyField: React.FC = () => {
+  const credentials = useCredentialStatus();
+  return (
+    <ApiKeySettings
+      status={credentials.status}
+      onSave={credentials.save}
+      onClear={credentials.clear}
+    />
+  );
+};
+
+const CREDENTIAL_FIELDS: Record<CredentialRequirement, React.FC> = {
+  "alpha-vantage-api-key": AlphaVantageKeyField,
+};
+
+// The credential controls a provider needs, for forms other than this one.
+export const ProviderCredentials: React.FC<{ provider: DataProvider }> = ({
+  provider,
+}) => (
+  <>
+    {provider.credentials.map((credential) => {
+      const Field = CREDENTIAL_FIELDS[credential];
+      return <Field key={credential} />;
+    })}
+  </>
+);
+
+export const AnalysisForm: React.FC<AnalysisFormProps> = ({
+  provider,
+  providers,
+  onProviderChange,
+  params,
+  onParamsChange,
+  onSubmit,
+  loading,
+}) => {
+  const showProviderSelect = Boolean(providers && onProviderChange);
+  const columns =
+    3 + provider.credentials.length + (showProviderSelect ? 1 : 0);
+
+  const handleSubmit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    onSubmit();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div
+        className={`grid grid-cols-1 ${
+          GRID_COLUMNS[columns] ?? "md:grid-cols-4"
+        } gap-4`}
+      >
+        {showProviderSelect && (
+          <SelectField
+            label="Data Source"
+            placeholder="Select source"
+            value={provider.id}
+            options={providers!.map((p) => ({ value: p.id, label: p.label }))}
+            onChange={(value) => onProviderChange!(value as ProviderId)}
+          />
+        )}
+        <SelectField
+          label="Cryptocurrency"
+          placeholder="Select crypto"
+          value={params.symbol}
+          options={provider.symbols}
+          onChange={(symbol) => onParamsChange({ ...params, symbol })}
+        />
+        <SelectField
+          label="Timeframe"
+          placeholder="Select timeframe"
+          value={params.timeframe}
+          options={provider.timeframes}
+          onChange={(timeframe) => onParamsChange({ ...params, timeframe })}
+        />
+        <SelectField
+          label="Analysis Period"
+          placeholder="Select period"
+          value={params.period}
+          options={provider.periods}
+          onChange={(period) => onParamsChange({ ...params, period })}
+        />
+        <ProviderCredentials provider={provider} />
+      </div>
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Processing
+          </>
+        ) : (
+          "Analyze Market"
+        )}
+      </Button>
+    </form>
+  );
+};
@@ -0,0 +1,488 @@
+import React, { useMemo, useState } from "react";
+import { FlaskConical, Loader2 } from "lucide-react";
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useBacktest } from "@/hooks/use-backtest";
+import { Candle, getErrorMessage } from "@/lib/api";
+import {
+  BacktestResult,
+  PredictionSignal,
+  SignalRule,
+  SignalRuleKind,
+  periodsPerYear,
+} from "@/lib/backtest";
+import { formatPercent, formatPrice } from "@/lib/format";
+import { listPredictions, seriesKey } from "@/lib/history";
+import type { AnalysisParams, ProviderId } from "@/lib/providers";
+import { NumberField, SelectField } from "./analysis-form";
+import { DOWN_COLOR, UP_COLOR } from "./chart-theme";
+
+const RULE_OPTIONS: { value: SignalRuleKind; label: string }[] = [
+  { value: "prediction", label: "Prediction UP above probability" },
+  { value: "rsi", label: "RSI oversold / overbought" },
+  { value: "macd", label: "MACD above signal line" },
+];
+
+interface BacktestSettings {
+  rule: SignalRuleKind;
+  minProbability: number;
+  holdBars: number;
+  rsiPeriod: number;
+  oversold: number;
+  overbought: number;
+  initialCapital: number;
+  feeBps: number;
+  slippageBps: number;
+  positionPercent: number;
+}
+
+// The prediction rule needs stored history, so a fresh install starts on a
+// rule that trades on prices alone.
+const DEFAULT_SETTINGS: BacktestSettings = {
+  rule: "rsi",
+  minProbability: 60,
+  holdBars: 5,
+  rsiPeriod: 14,
+  oversold: 30,
+  overbought: 70,
+  initialCapital: 10000,
+  feeBps: 10,
+  slippageBps: 5,
+  positionPercent: 100,
+};
+
+const equityConfig = {
+  equity: { label: "Strategy", color: "hsl(var(--chart-1))" },
+  buyAndHold: { label: "Buy and hold", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const drawdownConfig = {
+  drawdown: { label: "Drawdown", color: DOWN_COLOR },
+} satisfies ChartConfig;
+
+const buildRule = (settings: BacktestSettings): SignalRule => {
+  switch (settings.rule) {
+    case "prediction":
+      return {
+        kind: "prediction",
+        minProbability: settings.minProbability / 100,
+        holdBars: settings.holdBars,
+      };
+    case "rsi":
+      return {
+        kind: "rsi",
+        period: settings.rsiPeriod,
+        oversold: settings.oversold,
+        overbought: settings.overbought,
+      };
+    case "macd":
+      return { kind: "macd" };
+  }
+};
+
+// Past predictions for the same symbol and timeframe, oldest first.
+const loadSignals = async (
+  providerId: ProviderId,
+  params: AnalysisParams
+): Promise<PredictionSignal[]> => {
+  const key = seriesKey(providerId, params);
+  const records = await listPredictions();
+  return records
+    .filter((record) => seriesKey(record.providerId, record.params) === key)
+    .reverse()
+    .map((record) => ({
+      date: record.createdAt,
+      direction: record.prediction.prediction,
+      probabilityUp: record.prediction.probability_up,
+    }));
+};
+
+const MetricTile: React.FC<{ label: string; value: string; hint?: string; tone?: number }> = ({
+  label,
+  value,
+  hint,
+  tone = 0,
+}) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p
+      className={`text-2xl font-bold ${
+        tone > 0 ? "text-green-600" : tone < 0 ? "text-red-600" : ""
+      }`}
+    >
+      {value}
+    </p>
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+const BacktestResults: React.FC<{
+  result: BacktestResult;
+  candles: Candle[];
+}> = ({ result, candles }) => {
+  const { metrics, trades } = result;
+  const rows = useMemo(() => {
+    // Nothing trades on the first bar, so its equity is the starting capital.
+    const initialCapital = result.equity[0]?.equity ?? 0;
+    const firstOpen = candles[0]?.open ?? 0;
+    return result.equity.map((point, i) => ({
+      date: point.date.slice(0, 10),
+      equity: point.equity,
+      buyAndHold: firstOpen ? (initialCapital * candles[i].close) / firstOpen : null,
+      drawdown: point.drawdown,
+    }));
+  }, [result, candles]);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricTile
+          label="Total return"
+          value={formatPercent(metrics.totalReturn)}
+          hint={`Buy and hold ${formatPercent(metrics.buyAndHoldReturn)}`}
+          tone={metrics.totalReturn}
+        />
+        <MetricTile
+          label="Max drawdown"
+          value={formatPercent(metrics.maxDrawdown)}
+          tone={metrics.maxDrawdown < 0 ? -1 : 0}
+        />
+        <MetricTile
+          label="Sharpe ratio"
+          value={metrics.sharpe === null ? "-" : metrics.sharpe.toFixed(2)}
+          hint="Annualized"
+        />
+        <MetricTile
+          label="Win rate"
+          value={metrics.winRate === null ? "-" : formatPercent(metrics.winRate, 0)}
+          hint={`${metrics.tradeCount} trades, ${formatPercent(metrics.exposure, 0)} exposure`}
+        />
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">Equity curve</p>
+        <ChartContainer config={equityConfig} className="aspect-auto h-[240px] w-full">
+          <ComposedChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} minTickGap={32} />
+            <YAxis
+              orientation="right"
+              domain={["auto", "auto"]}
+              tickFormatter={formatPrice}
+              width={72}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  indicator="line"
+                  formatter={(value, name) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {equityConfig[name as keyof typeof equityConfig]?.label}
+                      </span>
+                      <span className="font-mono">${formatPrice(Number(value))}</span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Line
+              dataKey="buyAndHold"
+              stroke="var(--color-buyAndHold)"
+              strokeDasharray="5 4"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              dataKey="equity"
+              stroke="var(--color-equity)"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </ComposedChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">Drawdown</p>
+        <ChartContainer config={drawdownConfig} className="aspect-auto h-[160px] w-full">
+          <AreaChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} minTickGap={32} />
+            <YAxis
+              orientation="right"
+              tickFormatter={(value: number) => formatPercent(value, 0)}
+              width={72}
+            />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  indicator="line"
+                  formatter={(value) => (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">Drawdown</span>
+                      <span className="font-mono">{formatPercent(Number(value))}</span>
+                    </div>
+                  )}
+                />
+              }
+            />
+            <Area
+              dataKey="drawdown"
+              stroke="var(--color-drawdown)"
+              fill="var(--color-drawdown)"
+              fillOpacity={0.2}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      </div>
+
+      <div>
+        <p className="text-sm font-medium mb-2">
+          Trades{" "}
+          <span className="text-gray-500 font-normal">
+            (fees paid ${formatPrice(metrics.totalFees)})
+          </span>
+        </p>
+        {trades.length === 0 ? (
+          <p className="text-sm text-gray-500">The rule never entered a position.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 text-left">Entry</th>
+                  <th className="py-2 text-left">Exit</th>
+                  <th className="py-2 text-right">Entry price</th>
+                  <th className="py-2 text-right">Exit price</th>
+                  <th className="py-2 text-right">Fees</th>
+                  <th className="py-2 text-right">P&amp;L</th>
+                  <th className="py-2 text-right">Return</th>
+                </tr>
+              </thead>
+              <tbody>
+                {trades.map((trade) => (
+                  <tr key={trade.entryDate} className="border-b">
+                    <td className="py-2">{trade.entryDate.slice(0, 10)}</td>
+                    <td className="py-2">
+                      {trade.open ? (
+                        <span className="text-gray-500">Open</span>
+                      ) : (
+                        trade.exitDate.slice(0, 10)
+                      )}
+                    </td>
+                    <td className="py-2 text-right">${formatPrice(trade.entryPrice)}</td>
+                    <td className="py-2 text-right">${formatPrice(trade.exitPrice)}</td>
+                    <td className="py-2 text-right">${formatPrice(trade.fees)}</td>
+                    <td
+                      className="py-2 text-right"
+                      style={{ color: trade.pnl >= 0 ? UP_COLOR : DOWN_COLOR }}
+                    >
+                      ${formatPrice(trade.pnl)}
+                    </td>
+                    <td className="py-2 text-right">{formatPercent(trade.returnPct)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Replays a signal rule over the loaded candles. The simulation itself runs
+// in a Web Worker so long histories do not block the page.
+export const BacktestPanel: React.FC<{
+  candles: Candle[];
+  providerId: ProviderId;
+  params: AnalysisParams;
+}> = ({ candles, providerId, params }) => {
+  const [settings, setSettings] = useState<BacktestSettings>(DEFAULT_SETTINGS);
+  const [signalCount, setSignalCount] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const backtest = useBacktest();
+
+  const set =
+    <K extends keyof BacktestSettings>(key: K) =>
+    (value: BacktestSettings[K]) =>
+      setSettings((current) => ({ ...current, [key]: value }));
+
+  const handleRun = async () => {
+    setLoadError(null);
+    let signals: PredictionSignal[] = [];
+    if (settings.rule === "prediction") {
+      try {
+        signals = await loadSignals(providerId, params);
+      } catch (err) {
+        setLoadError(getErrorMessage(err));
+        return;
+      }
+      setSignalCount(signals.length);
+    }
+    backtest.run({
+      candles,
+      signals,
+      config: {
+        rule: buildRule(settings),
+        initialCapital: settings.initialCapital,
+        feeBps: settings.feeBps,
+        slippageBps: settings.slippageBps,
+        positionFraction: Math.min(Math.max(settings.positionPercent, 0), 100) / 100,
+        periodsPerYear: periodsPerYear(params.timeframe),
+      },
+    });
+  };
+
+  const error = loadError ?? backtest.error;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Backtest</CardTitle>
+          <p className="text-sm text-gray-500">
+            {params.symbol} over {candles.length} bars, long only, filled at the
+            next bar&apos;s open
+          </p>
+        </div>
+        <Button type="button" size="sm" onClick={handleRun} disabled={backtest.running}>
+          {backtest.running ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <FlaskConical className="h-4 w-4 mr-1" />
+          )}
+          Run backtest
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="md:col-span-2">
+            <SelectField
+              label="Signal rule"
+              placeholder="Select rule"
+              value={settings.rule}
+              options={RULE_OPTIONS}
+              onChange={(value) => set("rule")(value as SignalRuleKind)}
+            />
+          </div>
+          {settings.rule === "prediction" && (
+            <>
+              <NumberField
+                label="Min. probability up (%)"
+                value={settings.minProbability}
+                onChange={set("minProbability")}
+                min={50}
+                max={100}
+              />
+              <NumberField
+                label="Hold (bars)"
+                value={settings.holdBars}
+                onChange={set("holdBars")}
+                min={1}
+              />
+            </>
+          )}
+          {settings.rule === "rsi" && (
+            <>
+              <NumberField
+                label="RSI period"
+                value={settings.rsiPeriod}
+                onChange={set("rsiPeriod")}
+                min={2}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <NumberField
+                  label="Oversold"
+                  value={settings.oversold}
+                  onChange={set("oversold")}
+                  max={100}
+                />
+                <NumberField
+                  label="Overbought"
+                  value={settings.overbought}
+                  onChange={set("overbought")}
+                  max={100}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <NumberField
+            label="Initial capital ($)"
+            value={settings.initialCapital}
+            onChange={set("initialCapital")}
+            min={1}
+            step={100}
+          />
+          <NumberField
+            label="Fee (bps)"
+            value={settings.feeBps}
+            onChange={set("feeBps")}
+          />
+          <NumberField
+            label="Slippage (bps)"
+            value={settings.slippageBps}
+            onChange={set("slippageBps")}
+          />
+          <NumberField
+            label="Position size (% of equity)"
+            value={settings.positionPercent}
+            onChange={set("positionPercent")}
+            min={1}
+            max={100}
+          />
+        </div>
+
+        {settings.rule === "prediction" && signalCount === 0 && (
+          <p className="text-sm text-yellow-700">
+            No stored predictions for {params.symbol} ({params.timeframe}) yet,
+            so this rule cannot trade. Predictions are saved each time you run
+            an analysis; until there are some, try the RSI or MACD rule.
+          </p>
+        )}
+
+        {settings.rule === "prediction" && !!signalCount && (
+          <p className="text-xs text-gray-500">
+            {signalCount} stored prediction{signalCount === 1 ? "" : "s"} for{" "}
+            {params.symbol} ({params.timeframe}) used as signals. Predictions are
+            taken from your prediction history, each on the first bar on or
+            after the time you ran it, so the rule only trades after your runs.
+          </p>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTitle>Error</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {backtest.result && (
+          <BacktestResults result={backtest.result} candles={candles} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  CheckCircle2,
+  Clock,
+  Loader2,
+  RotateCcw,
+  XCircle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { BatchEntry, callProbability, expectedMove } from "@/lib/batch";
+import { formatPercent } from "@/lib/format";
+
+type SortKey = "symbol" | "direction" | "probability" | "accuracy" | "rsi" | "move";
+
+const COLUMNS: { key: SortKey; label: string; align: "left" | "right" }[] = [
+  { key: "symbol", label: "Symbol", align: "left" },
+  { key: "direction", label: "Direction", align: "left" },
+  { key: "probability", label: "Probability", align: "right" },
+  { key: "accuracy", label: "Accuracy", align: "right" },
+  { key: "rsi", label: "RSI", align: "right" },
+  { key: "move", label: "Expected move", align: "right" },
+];
+
+const sortValue = (entry: BatchEntry, key: SortKey): string | number | null => {
+  const prediction = entry.prediction;
+  if (key === "symbol") return entry.symbol;
+  if (!prediction) return null;
+  switch (key) {
+    case "direction":
+      return prediction.prediction;
+    case "probability":
+      return callProbability(prediction);
+    case "accuracy":
+      return prediction.accuracy;
+    case "rsi":
+      return prediction.technical_indicators.rsi;
+    case "move":
+      return expectedMove(prediction);
+  }
+};
+
+const StatusIcon: React.FC<{ entry: BatchEntry }> = ({ entry }) => {
+  switch (entry.status) {
+    case "queued":
+      return <Clock className="h-4 w-4 text-gray-400" aria-label="Queued" />;
+    case "running":
+      return <Loader2 className="h-4 w-4 animate-spin text-gray-500" aria-label="Running" />;
+    case "done":
+      return <CheckCircle2 className="h-4 w-4 text-green-600" aria-label="Done" />;
+    case "error":
+      return <XCircle className="h-4 w-4 text-red-600" aria-label="Failed" />;
+  }
+};
+
+export const BatchResultsTable: React.FC<{
+  entries: BatchEntry[];
+  onRetry: (symbol: string) => void;
+  retryDisabled?: boolean;
+}> = ({ entries, onRetry, retryDisabled = false }) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "probability",
+    descending: true,
+  });
+
+  // Rows without a value for the sort column (pending or failed) stay last.
+  const sorted = useMemo(
+    () =>
+      [...entries].sort((a, b) => {
+        const left = sortValue(a, sort.key);
+        const right = sortValue(b, sort.key);
+        if (left === null || right === null) {
+          return left === right ? 0 : left === null ? 1 : -1;
+        }
+        const order =
+          typeof left === "number" && typeof right === "number"
+            ? left - right
+            : String(left).localeCompare(String(right));
+        return sort.descending ? -order : order;
+      }),
+    [entries, sort]
+  );
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, descending: !current.descending }
+        : { key, descending: key !== "symbol" }
+    );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b">
+            <th className="py-2 w-8" />
+            {COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                className={`py-2 ${column.align === "left" ? "text-left" : "text-right"}`}
+                aria-sort={
+                  sort.key === column.key
+                    ? sort.descending
+                      ? "descending"
+                      : "ascending"
+                    : undefined
+                }
+              >
+                <button
+                  type="button"
+                  onClick={() => toggleSort(column.key)}
+                  className="inline-flex items-center gap-1 hover:text-gray-900"
+                >
+                  {column.label}
+                  {sort.key === column.key ? (
+                    sort.descending ? (
+                      <ArrowDown className="h-3 w-3" />
+                    ) : (
+                      <ArrowUp className="h-3 w-3" />
+                    )
+                  ) : (
+                    <ArrowUpDown className="h-3 w-3 text-gray-400" />
+                  )}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((entry) => {
+            const prediction = entry.prediction;
+            const move = prediction ? expectedMove(prediction) : null;
+            return (
+              <tr key={entry.symbol} className="border-b">
+                <td className="py-2">
+                  <StatusIcon entry={entry} />
+                </td>
+                <td className="py-2 font-medium">{entry.symbol}</td>
+                {entry.status === "error" ? (
+                  <td colSpan={5} className="py-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm text-red-600">
+                        {entry.error}
+                        {entry.attempts > 1 && ` (${entry.attempts} attempts)`}
+                      </span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        disabled={retryDisabled}
+                        onClick={() => onRetry(entry.symbol)}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Retry
+                      </Button>
+                    </div>
+                  </td>
+                ) : prediction ? (
+                  <>
+                    <td
+                      className={`py-2 ${
+                        prediction.prediction === "UP" ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {prediction.prediction}
+                    </td>
+                    <td className="py-2 text-right">
+                      {formatPercent(callProbability(prediction))}
+                    </td>
+                    <td className="py-2 text-right">
+                      {formatPercent(prediction.accuracy)}
+                    </td>
+                    <td className="py-2 text-right">
+                      {prediction.technical_indicators.rsi.toFixed(1)}
+                    </td>
+                    <td
+                      className={`py-2 text-right ${
+                        move === null ? "" : move >= 0 ? "text-green-600" : "text-red-600"
+                      }`}
+                    >
+                      {move === null ? "-" : `${move >= 0 ? "+" : ""}${formatPercent(move, 2)}`}
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={5} className="py-2 text-sm text-gray-400">
+                    {entry.status === "running" ? "Analyzing…" : "Waiting"}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
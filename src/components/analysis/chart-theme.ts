@@ -0,0 +1,2 @@
+export const UP_COLOR = "#16a34a";
+export const DOWN_COLOR = "#dc2626";
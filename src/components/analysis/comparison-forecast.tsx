@@ -0,0 +1,178 @@
+import React, { useMemo } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import type { ForecastComparison } from "@/lib/comparison";
+import { formatPrice } from "@/lib/format";
+
+interface PathRow {
+  step: string;
+  left?: number;
+  right?: number;
+  leftBand?: [number, number];
+  rightBand?: [number, number];
+}
+
+const Direction: React.FC<{ direction?: string }> = ({ direction }) =>
+  direction ? (
+    <span className={direction === "UP" ? "text-green-600" : "text-red-600"}>
+      {direction}
+    </span>
+  ) : (
+    <span className="text-gray-400">n/a</span>
+  );
+
+// Both forecast paths and intervals on one axis, followed by a step table
+// that flags opposite directions and intervals that do not overlap.
+export const ComparisonForecast: React.FC<{
+  steps: ForecastComparison[];
+  leftLabel: string;
+  rightLabel: string;
+}> = ({ steps, leftLabel, rightLabel }) => {
+  const chartConfig = {
+    left: { label: leftLabel, color: "hsl(var(--chart-1))" },
+    right: { label: rightLabel, color: "hsl(var(--chart-2))" },
+  } satisfies ChartConfig;
+
+  const rows = useMemo<PathRow[]>(
+    () =>
+      steps.map(({ step, left, right }) => ({
+        step: `Step ${step}`,
+        left: left?.predicted_price,
+        right: right?.predicted_price,
+        leftBand: left
+          ? [left.prediction_interval_low, left.prediction_interval_high]
+          : undefined,
+        rightBand: right
+          ? [right.prediction_interval_low, right.prediction_interval_high]
+          : undefined,
+      })),
+    [steps]
+  );
+
+  return (
+    <div className="space-y-4">
+      <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+        <ComposedChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="step" tickLine={false} />
+          <YAxis
+            orientation="right"
+            domain={["auto", "auto"]}
+            tickFormatter={formatPrice}
+            width={72}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                indicator="line"
+                formatter={(value, name) =>
+                  Array.isArray(value) ? null : (
+                    <div className="flex w-full justify-between gap-4">
+                      <span className="text-muted-foreground">
+                        {chartConfig[name as keyof typeof chartConfig]?.label}
+                      </span>
+                      <span className="font-mono">${formatPrice(Number(value))}</span>
+                    </div>
+                  )
+                }
+              />
+            }
+          />
+          <Area
+            dataKey="leftBand"
+            stroke="none"
+            fill="var(--color-left)"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+          <Area
+            dataKey="rightBand"
+            stroke="none"
+            fill="var(--color-right)"
+            fillOpacity={0.15}
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="left"
+            stroke="var(--color-left)"
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+          <Line
+            dataKey="right"
+            stroke="var(--color-right)"
+            strokeWidth={2}
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b">
+              <th className="py-2 text-left">Step</th>
+              <th className="py-2 text-right">{leftLabel}</th>
+              <th className="py-2 text-right">{rightLabel}</th>
+              <th className="py-2 text-center">Direction</th>
+              <th className="py-2 w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {steps.map(({ step, left, right, directionDisagrees, intervalsDisjoint }) => (
+              <tr
+                key={step}
+                className={`border-b ${
+                  directionDisagrees || intervalsDisjoint ? "bg-amber-50" : ""
+                }`}
+              >
+                <td className="py-2">
+                  {step}
+                  <span className="ml-2 text-xs text-gray-500">
+                    {left?.date ?? right?.date}
+                  </span>
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {left ? `$${formatPrice(left.predicted_price)}` : "n/a"}
+                </td>
+                <td className="py-2 text-right font-mono">
+                  {right ? `$${formatPrice(right.predicted_price)}` : "n/a"}
+                </td>
+                <td className="py-2 text-center">
+                  <Direction direction={left?.direction} />
+                  {" / "}
+                  <Direction direction={right?.direction} />
+                </td>
+                <td className="py-2 text-center">
+                  {(directionDisagrees || intervalsDisjoint) && (
+                    <AlertTriangle
+                      className="h-4 w-4 text-amber-600 inline"
+                      aria-label={
+                        directionDisagrees
+                          ? "Opposite directions"
+                          : "Prediction intervals do not overlap"
+                      }
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from "react";
+import { AlertTriangle } from "lucide-react";
+import type { ComparisonRow, ComparisonValue } from "@/lib/comparison";
+import { formatPercent, formatPrice } from "@/lib/format";
+
+const formatValue = (
+  value: ComparisonValue,
+  format: ComparisonRow["format"]
+): string => {
+  if (value === null) return "n/a";
+  if (typeof value === "string") return value;
+  switch (format) {
+    case "price":
+      return `$${formatPrice(value)}`;
+    case "percent":
+      return formatPercent(value);
+    default:
+      return value.toFixed(2);
+  }
+};
+
+// Two predictions row by row; rows where they disagree are highlighted.
+export const ComparisonTable: React.FC<{
+  rows: ComparisonRow[];
+  leftLabel: string;
+  rightLabel: string;
+}> = ({ rows, leftLabel, rightLabel }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b">
+          <th className="py-2 text-left" />
+          <th className="py-2 text-right">{leftLabel}</th>
+          <th className="py-2 text-right">{rightLabel}</th>
+          <th className="py-2 w-8" />
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr
+            key={row.label}
+            className={`border-b ${row.disagree ? "bg-amber-50" : ""}`}
+          >
+            <td className="py-2 font-medium">{row.label}</td>
+            <td className="py-2 text-right font-mono">
+              {formatValue(row.left, row.format)}
+            </td>
+            <td className="py-2 text-right font-mono">
+              {formatValue(row.right, row.format)}
+            </td>
+            <td className="py-2 text-center">
+              {row.disagree && (
+                <AlertTriangle
+                  className="h-4 w-4 text-amber-600 inline"
+                  aria-label="Disagreement"
+                />
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
@@ -0,0 +1,26 @@
+import React from "react";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import { formatAbsolute, formatRelative, parseTimestamp } from "@/lib/dates";
+
+// A backend date in the selected time zone. Relative dates carry the
+// absolute one as a tooltip.
+export const DateTime: React.FC<{
+  value: string;
+  relative?: boolean;
+  withTime?: boolean;
+  className?: string;
+}> = ({ value, relative = false, withTime = true, className }) => {
+  const { timeZone } = useTimeZone();
+  const time = parseTimestamp(value);
+  const absolute = formatAbsolute(value, timeZone, { withTime });
+
+  return (
+    <time
+      dateTime={time === null ? undefined : new Date(time).toISOString()}
+      title={relative ? absolute : undefined}
+      className={className}
+    >
+      {relative ? formatRelative(value, timeZone) : absolute}
+    </time>
+  );
+};
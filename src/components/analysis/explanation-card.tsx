@@ -0,0 +1,65 @@
+import React, { useMemo } from "react";
+import { CheckCircle2, Info, XCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { PredictionData } from "@/lib/api";
+import { Finding, explainPrediction } from "@/lib/explanation";
+
+const countFactors = (count: number): string =>
+  `${count} ${count === 1 ? "factor" : "factors"}`;
+
+const FindingList: React.FC<{
+  title: string;
+  findings: Finding[];
+  icon: React.ReactNode;
+}> = ({ title, findings, icon }) =>
+  findings.length ? (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-500">{title}</h3>
+      <ul className="space-y-2">
+        {findings.map((finding) => (
+          <li key={finding.ruleId} className="flex items-start gap-2 text-sm">
+            <span className="mt-0.5 shrink-0">{icon}</span>
+            <span>
+              <span className="font-medium">{finding.factor}:</span>{" "}
+              {finding.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  ) : null;
+
+export const ExplanationCard: React.FC<{ prediction: PredictionData }> = ({
+  prediction,
+}) => {
+  const explanation = useMemo(() => explainPrediction(prediction), [prediction]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Why {explanation.call}?</CardTitle>
+        <p className="text-sm text-gray-500">
+          {countFactors(explanation.supporting.length)} for the call,{" "}
+          {countFactors(explanation.contradicting.length)} against it.
+        </p>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <FindingList
+          title="Supporting"
+          findings={explanation.supporting}
+          icon={<CheckCircle2 className="h-4 w-4 text-green-600" />}
+        />
+        <FindingList
+          title="Contradicting"
+          findings={explanation.contradicting}
+          icon={<XCircle className="h-4 w-4 text-red-600" />}
+        />
+        <FindingList
+          title="Context"
+          findings={explanation.context}
+          icon={<Info className="h-4 w-4 text-gray-400" />}
+        />
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getErrorMessage } from "@/lib/api";
+import {
+  EXPORT_FORMATS,
+  ExportDataset,
+  ExportFormat,
+  exportDataset,
+} from "@/lib/export";
+
+// Download menu for a tab's data. The dataset is built when a format is
+// picked, so the export timestamp is the time of the click.
+export const ExportMenu: React.FC<{
+  dataset: () => ExportDataset;
+  onError?: (message: string) => void;
+}> = ({ dataset, onError }) => {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await exportDataset(dataset(), format);
+    } catch (err) {
+      console.error("Export error:", err);
+      onError?.(getErrorMessage(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={exporting}>
+          {exporting ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4 mr-1" />
+          )}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map((format) => (
+          <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,205 @@
+import React, { useMemo } from "react";
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import type { Candle, ForecastPoint } from "@/lib/api";
+import { formatAbsolute } from "@/lib/dates";
+import { formatPercent, formatPrice } from "@/lib/format";
+import { DOWN_COLOR, UP_COLOR } from "./chart-theme";
+import { DateTime } from "./date-time";
+
+// How many historical closes lead into the forecast.
+const HISTORY_BARS = 30;
+
+interface FanRow {
+  date: string;
+  close?: number;
+  predicted?: number;
+  band?: [number, number];
+  point?: ForecastPoint;
+}
+
+interface StepDotProps {
+  cx?: number;
+  cy?: number;
+  payload?: FanRow;
+}
+
+const chartConfig = {
+  close: { label: "Price", color: "hsl(var(--chart-1))" },
+  predicted: { label: "Forecast", color: "hsl(var(--chart-3))" },
+  band: { label: "Prediction interval", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// A coin-flip step (50%) is faint; a certain one is fully opaque.
+export const probabilityOpacity = (probability: number): number =>
+  Math.min(Math.max(0.25 + (probability - 0.5) * 1.5, 0.25), 1);
+
+const buildRows = (
+  forecast: ForecastPoint[],
+  history: Candle[] | undefined,
+  currentPrice: number
+): FanRow[] => {
+  const past: FanRow[] = history?.length
+    ? history.slice(-HISTORY_BARS).map((c) => ({ date: c.date, close: c.close }))
+    : [{ date: "Now", close: currentPrice }];
+
+  // The last known close also starts the forecast line and band so the
+  // projection visibly continues from it.
+  const anchor = past[past.length - 1];
+  anchor.predicted = anchor.close;
+  anchor.band = [anchor.close!, anchor.close!];
+
+  return [
+    ...past,
+    ...forecast.map((point) => ({
+      date: point.date,
+      predicted: point.predicted_price,
+      band: [point.prediction_interval_low, point.prediction_interval_high] as [
+        number,
+        number
+      ],
+      point,
+    })),
+  ];
+};
+
+const StepDot: React.FC<StepDotProps> = ({ cx, cy, payload }) => {
+  if (cx === undefined || cy === undefined || !payload?.point) return null;
+  const { direction, probability } = payload.point;
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={5}
+      fill={direction === "UP" ? UP_COLOR : DOWN_COLOR}
+      fillOpacity={probabilityOpacity(probability)}
+      stroke={direction === "UP" ? UP_COLOR : DOWN_COLOR}
+    />
+  );
+};
+
+// Mirrors the columns of ForecastTable for the hovered step.
+const FanTooltip: React.FC<{ active?: boolean; payload?: { payload: FanRow }[] }> = ({
+  active,
+  payload,
+}) => {
+  const row = payload?.[0]?.payload;
+  if (!active || !row) return null;
+  const point = row.point;
+  return (
+    <div className="grid min-w-[10rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <DateTime value={row.date} className="font-medium" />
+      {point ? (
+        <>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Predicted</span>
+            <span className="font-mono">${formatPrice(point.predicted_price)}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Direction</span>
+            <span className={point.direction === "UP" ? "text-green-600" : "text-red-600"}>
+              {point.direction}
+            </span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Confidence</span>
+            <span className="font-mono">{formatPercent(point.probability)}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-muted-foreground">Range</span>
+            <span className="font-mono">
+              <span className="text-red-600">${formatPrice(point.prediction_interval_low)}</span>
+              {" - "}
+              <span className="text-green-600">${formatPrice(point.prediction_interval_high)}</span>
+            </span>
+          </div>
+        </>
+      ) : (
+        <div className="flex justify-between gap-4">
+          <span className="text-muted-foreground">Price</span>
+          <span className="font-mono">${formatPrice(row.close ?? 0)}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const ForecastChart: React.FC<{
+  forecast: ForecastPoint[];
+  history?: Candle[];
+  currentPrice: number;
+}> = ({ forecast, history, currentPrice }) => {
+  const rows = useMemo(
+    () => buildRows(forecast, history, currentPrice),
+    [forecast, history, currentPrice]
+  );
+  const anchorDate = rows[rows.length - forecast.length - 1]?.date;
+  const { timeZone } = useTimeZone();
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+      <ComposedChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          minTickGap={32}
+          tickFormatter={(date: string) => formatAbsolute(date, timeZone)}
+        />
+        <YAxis
+          orientation="right"
+          domain={["auto", "auto"]}
+          tickFormatter={formatPrice}
+          width={72}
+        />
+        <ChartTooltip cursor={{ strokeDasharray: "3 3" }} content={<FanTooltip />} />
+        {anchorDate && (
+          <ReferenceLine
+            x={anchorDate}
+            stroke="hsl(var(--muted-foreground))"
+            strokeDasharray="3 3"
+          />
+        )}
+        <Area
+          dataKey="band"
+          type="monotone"
+          stroke="none"
+          fill="var(--color-band)"
+          fillOpacity={0.2}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="close"
+          type="monotone"
+          stroke="var(--color-close)"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        <Line
+          dataKey="predicted"
+          type="monotone"
+          stroke="var(--color-predicted)"
+          strokeWidth={2}
+          strokeDasharray="5 4"
+          dot={<StepDot />}
+          activeDot={false}
+          isAnimationActive={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
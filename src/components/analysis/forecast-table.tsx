@@ -0,0 +1,63 @@
+import React from "react";
+import { ArrowDown, ArrowUp } from "lucide-react";
+import type { ForecastPoint } from "@/lib/api";
+import { formatPercent, formatPrice } from "@/lib/format";
+import { DateTime } from "./date-time";
+
+export const ForecastTable: React.FC<{ forecast: ForecastPoint[] }> = ({
+  forecast,
+}) => (
+  <div className="overflow-x-auto">
+    <table className="w-full">
+      <thead>
+        <tr className="border-b">
+          <th className="py-2 text-left">Date</th>
+          <th className="py-2 text-right">Predicted Price</th>
+          <th className="py-2 text-center">Direction</th>
+          <th className="py-2 text-right">Confidence</th>
+          <th className="py-2 text-right">Range</th>
+        </tr>
+      </thead>
+      <tbody>
+        {forecast.map((point, index) => (
+          <tr key={index} className="border-b">
+            <td className="py-2">
+              <DateTime value={point.date} />
+            </td>
+            <td className="py-2 text-right">
+              ${formatPrice(point.predicted_price)}
+            </td>
+            <td className="py-2 text-center">
+              <div className="flex items-center justify-center">
+                {point.direction === "UP" ? (
+                  <ArrowUp className="text-green-500" size={20} />
+                ) : (
+                  <ArrowDown className="text-red-500" size={20} />
+                )}
+                <span
+                  className={`ml-1 ${
+                    point.direction === "UP" ? "text-green-600" : "text-red-600"
+                  }`}
+                >
+                  {point.direction}
+                </span>
+              </div>
+            </td>
+            <td className="py-2 text-right">
+              {formatPercent(point.probability)}
+            </td>
+            <td className="py-2 text-right">
+              <span className="text-red-600">
+                ${formatPrice(point.prediction_interval_low)}
+              </span>
+              {" - "}
+              <span className="text-green-600">
+                ${formatPrice(point.prediction_interval_high)}
+              </span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
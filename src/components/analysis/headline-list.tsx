@@ -0,0 +1,37 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { YahooNewsResponse } from "@/lib/api";
+import { DateTime } from "./date-time";
+
+export const HeadlineList: React.FC<{ news: YahooNewsResponse }> = ({
+  news,
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Latest News</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <div className="space-y-4">
+        {news.items.map((article, index) => (
+          <div key={index} className="p-4 bg-gray-50 rounded-lg space-y-2">
+            <h3 className="font-medium text-base">
+              <a
+                href={article.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="hover:text-blue-600"
+              >
+                {article.title}
+              </a>
+            </h3>
+            <p className="text-sm text-gray-600">{article.summary}</p>
+            <div className="flex justify-between items-center text-xs text-gray-500">
+              <DateTime value={article.published_date} relative />
+              <span>{article.publisher}</span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </CardContent>
+  </Card>
+);
@@ -0,0 +1,59 @@
+import React from "react";
+
+interface IndicatorProps {
+  label: string;
+  value: number | string;
+  signal?: string;
+  description: string;
+  // The same indicator computed in the browser from the OHLCV bars.
+  local?: number | null;
+}
+
+// Differences beyond 5% (or 0.05 near zero) are highlighted; small ones come
+// from rounding and warm-up length.
+const deviates = (value: number, local: number) =>
+  Math.abs(value - local) > 0.05 * Math.max(Math.abs(value), 1);
+
+export const IndicatorCard: React.FC<IndicatorProps> = ({
+  label,
+  value,
+  signal,
+  description,
+  local,
+}) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <div className="text-sm font-medium text-gray-500">{label}</div>
+    <div className="flex items-center justify-between mt-1">
+      <span className="text-xl font-bold">
+        {typeof value === "number" ? value.toFixed(2) : value}
+      </span>
+      {signal && (
+        <span
+          className={`text-sm font-medium px-2 py-1 rounded ${
+            signal.toLowerCase().includes("bull") ||
+            signal.toLowerCase().includes("strong") ||
+            signal === "Overbought"
+              ? "bg-green-100 text-green-800"
+              : signal.toLowerCase().includes("bear") ||
+                signal.toLowerCase().includes("weak") ||
+                signal === "Oversold"
+              ? "bg-red-100 text-red-800"
+              : "bg-gray-100 text-gray-800"
+          }`}
+        >
+          {signal}
+        </span>
+      )}
+    </div>
+    <div className="text-xs text-gray-400 mt-1">{description}</div>
+    {typeof value === "number" && local !== undefined && (
+      <div
+        className={`text-xs mt-1 ${
+          local !== null && deviates(value, local) ? "text-yellow-700" : "text-gray-500"
+        }`}
+      >
+        Local: {local === null ? "not enough bars" : local.toFixed(2)}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,281 @@
+import React, { useMemo } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { ChevronDown, ChevronUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Candle } from "@/lib/api";
+import {
+  INDICATOR_PANE_IDS,
+  IndicatorPaneId,
+  Series,
+  computePaneSeries,
+} from "@/lib/indicators";
+import { DOWN_COLOR, UP_COLOR } from "./chart-theme";
+
+type PaneRow = { date: string } & Record<string, number | null | string>;
+
+interface PaneDefinition {
+  label: string;
+  config: ChartConfig;
+  // Plotted as bars coloured by sign instead of a line.
+  histogram?: string;
+  domain?: [number, number];
+  bands?: number[];
+}
+
+const PANES: Record<IndicatorPaneId, PaneDefinition> = {
+  rsi: {
+    label: "RSI (14)",
+    config: { rsi: { label: "RSI", color: "hsl(var(--chart-4))" } },
+    domain: [0, 100],
+    bands: [70, 30],
+  },
+  macd: {
+    label: "MACD (12, 26, 9)",
+    config: {
+      macd: { label: "MACD", color: "hsl(var(--chart-1))" },
+      signal: { label: "Signal", color: "hsl(var(--chart-5))" },
+      histogram: { label: "Histogram" },
+    },
+    histogram: "histogram",
+  },
+  stochastic: {
+    label: "Stochastic (14, 3)",
+    config: {
+      k: { label: "%K", color: "hsl(var(--chart-1))" },
+      d: { label: "%D", color: "hsl(var(--chart-5))" },
+    },
+    domain: [0, 100],
+    bands: [80, 20],
+  },
+  adx: {
+    label: "ADX (14)",
+    config: {
+      adx: { label: "ADX", color: "hsl(var(--chart-4))" },
+      plusDI: { label: "+DI", color: UP_COLOR },
+      minusDI: { label: "-DI", color: DOWN_COLOR },
+    },
+    bands: [25],
+  },
+};
+
+const formatValue = (value: number): string =>
+  Math.abs(value) >= 100 ? value.toFixed(0) : value.toFixed(2);
+
+const IndicatorPane: React.FC<{
+  id: IndicatorPaneId;
+  rows: PaneRow[];
+  syncId: string;
+  hoverIndex: number | null;
+  onMouseMove: (state: { activeTooltipIndex?: number }) => void;
+}> = ({ id, rows, syncId, hoverIndex, onMouseMove }) => {
+  const pane = PANES[id];
+  const keys = Object.keys(pane.config);
+  const current =
+    hoverIndex !== null && rows[hoverIndex] ? rows[hoverIndex] : rows[rows.length - 1];
+
+  return (
+    <div className="relative border-t">
+      <div className="pointer-events-none absolute left-2 top-1 z-10 flex flex-wrap gap-x-3 text-xs font-mono tabular-nums text-gray-600">
+        <span className="font-medium text-gray-900">{pane.label}</span>
+        {keys.map((key) => {
+          const value = current?.[key];
+          return (
+            <span key={key} style={{ color: pane.config[key].color }}>
+              {pane.config[key].label}{" "}
+              {typeof value === "number" ? formatValue(value) : "-"}
+            </span>
+          );
+        })}
+      </div>
+      <ChartContainer config={pane.config} className="aspect-auto h-[110px] w-full">
+        <ComposedChart
+          data={rows}
+          syncId={syncId}
+          margin={{ top: 20, right: 8, bottom: 0, left: 8 }}
+          onMouseMove={onMouseMove}
+        >
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" hide />
+          <YAxis
+            orientation="right"
+            domain={pane.domain ?? ["auto", "auto"]}
+            ticks={pane.bands}
+            tickFormatter={formatValue}
+            width={72}
+          />
+          <ChartTooltip cursor={{ strokeDasharray: "3 3" }} content={() => null} />
+          {pane.bands?.map((band) => (
+            <ReferenceLine
+              key={band}
+              y={band}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="3 3"
+            />
+          ))}
+          {keys.map((key) =>
+            key === pane.histogram ? (
+              <Bar key={key} dataKey={key} isAnimationActive={false}>
+                {rows.map((row) => (
+                  <Cell
+                    key={row.date}
+                    fill={Number(row[key]) >= 0 ? UP_COLOR : DOWN_COLOR}
+                    fillOpacity={0.5}
+                  />
+                ))}
+              </Bar>
+            ) : (
+              <Line
+                key={key}
+                dataKey={key}
+                type="monotone"
+                stroke={`var(--color-${key})`}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )
+          )}
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+};
+
+// Indicator sub-panels for the same window the price chart shows. Series are
+// computed over every candle so the warm-up period does not move with zoom.
+export const IndicatorPanes: React.FC<{
+  candles: Candle[];
+  panes: IndicatorPaneId[];
+  start: number;
+  end: number;
+  // The price chart's syncId, so its tooltip moves across every pane.
+  syncId: string;
+  hoverIndex: number | null;
+  onMouseMove: (state: { activeTooltipIndex?: number }) => void;
+}> = ({ candles, panes, start, end, syncId, hoverIndex, onMouseMove }) => {
+  const series = useMemo(
+    () =>
+      Object.fromEntries(
+        INDICATOR_PANE_IDS.map((id) => [id, computePaneSeries(id, candles)])
+      ) as Record<IndicatorPaneId, Record<string, Series>>,
+    [candles]
+  );
+
+  return (
+    <>
+      {panes.map((id) => {
+        const rows = candles.slice(start, end + 1).map((candle, offset) => {
+          const row: PaneRow = { date: candle.date };
+          for (const [key, values] of Object.entries(series[id])) {
+            row[key] = values[start + offset];
+          }
+          return row;
+        });
+        return (
+          <IndicatorPane
+            key={id}
+            id={id}
+            rows={rows}
+            syncId={syncId}
+            hoverIndex={hoverIndex}
+            onMouseMove={onMouseMove}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export const IndicatorPaneControls: React.FC<{
+  panes: IndicatorPaneId[];
+  onAdd: (id: IndicatorPaneId) => void;
+  onRemove: (id: IndicatorPaneId) => void;
+  onMove: (id: IndicatorPaneId, offset: -1 | 1) => void;
+}> = ({ panes, onAdd, onRemove, onMove }) => {
+  const available = INDICATOR_PANE_IDS.filter((id) => !panes.includes(id));
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {panes.map((id, index) => (
+        <div
+          key={id}
+          className="flex items-center gap-0.5 rounded-md border pl-2 text-xs"
+        >
+          <span className="mr-1">{PANES[id].label}</span>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            disabled={index === 0}
+            onClick={() => onMove(id, -1)}
+            aria-label={`Move ${PANES[id].label} up`}
+          >
+            <ChevronUp className="h-3 w-3" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            disabled={index === panes.length - 1}
+            onClick={() => onMove(id, 1)}
+            aria-label={`Move ${PANES[id].label} down`}
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            className="h-6 w-6"
+            onClick={() => onRemove(id)}
+            aria-label={`Remove ${PANES[id].label}`}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={available.length === 0}
+          >
+            <Plus className="mr-1 h-4 w-4" />
+            Add indicator
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {available.map((id) => (
+            <DropdownMenuItem key={id} onSelect={() => onAdd(id)}>
+              {PANES[id].label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
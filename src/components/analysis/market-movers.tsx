@@ -0,0 +1,72 @@
+import React from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { MarketMovers, TickerInfo } from "@/lib/api";
+
+export const MarketMoversCard: React.FC<{ data: TickerInfo[] }> = ({ data }) => (
+  <div className="space-y-2">
+    {data.map((item, index) => (
+      <div
+        key={index}
+        className="p-3 bg-gray-50 rounded-lg flex justify-between items-center"
+      >
+        <div>
+          <span className="font-medium">{item.ticker}</span>
+          <span className="text-sm text-gray-500 ml-2">
+            ${item.price.toFixed(2)}
+          </span>
+        </div>
+        <div className="flex items-center">
+          <span
+            className={`text-sm font-medium ${
+              item.change_percentage >= 0 ? "text-green-600" : "text-red-600"
+            }`}
+          >
+            {item.change_percentage >= 0 ? (
+              <ChevronUp className="inline h-4 w-4" />
+            ) : (
+              <ChevronDown className="inline h-4 w-4" />
+            )}
+            {Math.abs(item.change_percentage).toFixed(2)}%
+          </span>
+          <span className="text-xs text-gray-500 ml-2">
+            Vol: {(item.volume / 1000000).toFixed(1)}M
+          </span>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+export const MarketOverview: React.FC<{ marketMovers: MarketMovers }> = ({
+  marketMovers,
+}) => (
+  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-green-600">Top Gainers</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <MarketMoversCard data={marketMovers.top_gainers} />
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-red-600">Top Losers</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <MarketMoversCard data={marketMovers.top_losers} />
+      </CardContent>
+    </Card>
+
+    <Card>
+      <CardHeader>
+        <CardTitle>Most Active</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <MarketMoversCard data={marketMovers.most_actively_traded} />
+      </CardContent>
+    </Card>
+  </div>
+);
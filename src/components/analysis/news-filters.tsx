@@ -0,0 +1,159 @@
+import React from "react";
+import { ChevronDown, Search, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  EMPTY_NEWS_FILTERS,
+  FacetCount,
+  NEWS_FACETS,
+  NewsFacet,
+  NewsFilters,
+  hasActiveFilters,
+} from "@/lib/news";
+
+const FacetMenu: React.FC<{
+  label: string;
+  counts: FacetCount[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}> = ({ label, counts, selected, onToggle }) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button type="button" size="sm" variant="outline" disabled={counts.length === 0}>
+        {label}
+        {selected.length > 0 && ` (${selected.length})`}
+        <ChevronDown className="ml-1 h-4 w-4" />
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+      {counts.map(({ value, count }) => (
+        <DropdownMenuCheckboxItem
+          key={value}
+          checked={selected.includes(value)}
+          disabled={count === 0 && !selected.includes(value)}
+          // Keep the menu open so several values can be picked in a row.
+          onSelect={(e) => e.preventDefault()}
+          onCheckedChange={() => onToggle(value)}
+        >
+          <span className="flex w-full justify-between gap-4">
+            <span>{value}</span>
+            <span className="font-mono text-muted-foreground">{count}</span>
+          </span>
+        </DropdownMenuCheckboxItem>
+      ))}
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+// Search, date range and facet menus over the loaded articles. Counts come
+// from the caller so they reflect the rest of the current selection.
+export const NewsFilterBar: React.FC<{
+  filters: NewsFilters;
+  counts: Record<NewsFacet, FacetCount[]>;
+  onChange: (filters: NewsFilters) => void;
+}> = ({ filters, counts, onChange }) => {
+  const toggle = (facet: NewsFacet, value: string) => {
+    const selected = filters.facets[facet];
+    onChange({
+      ...filters,
+      facets: {
+        ...filters.facets,
+        [facet]: selected.includes(value)
+          ? selected.filter((item) => item !== value)
+          : [...selected, value],
+      },
+    });
+  };
+
+  const chips = NEWS_FACETS.flatMap(({ key }) =>
+    filters.facets[key].map((value) => ({ key, value }))
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Search</label>
+          <div className="relative">
+            <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              value={filters.query}
+              placeholder="Title or summary"
+              className="pl-8"
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                onChange({ ...filters, query: e.target.value })
+              }
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">From</label>
+          <Input
+            type="date"
+            value={filters.from}
+            max={filters.to || undefined}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...filters, from: e.target.value })
+            }
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium">To</label>
+          <Input
+            type="date"
+            value={filters.to}
+            min={filters.from || undefined}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...filters, to: e.target.value })
+            }
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {NEWS_FACETS.map(({ key, label }) => (
+          <FacetMenu
+            key={key}
+            label={label}
+            counts={counts[key]}
+            selected={filters.facets[key]}
+            onToggle={(value) => toggle(key, value)}
+          />
+        ))}
+        {hasActiveFilters(filters) && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => onChange(EMPTY_NEWS_FILTERS)}
+          >
+            <X className="h-4 w-4 mr-1" />
+            Clear all
+          </Button>
+        )}
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {chips.map(({ key, value }) => (
+            <button
+              key={`${key}:${value}`}
+              type="button"
+              className="flex items-center gap-1 px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs"
+              onClick={() => toggle(key, value)}
+            >
+              {value}
+              <X className="h-3 w-3" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
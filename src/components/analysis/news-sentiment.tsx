@@ -0,0 +1,371 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Download, Loader2, RotateCw } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import type { Candle, NewsArticle, NewsSentiment, SentimentSummary } from "@/lib/api";
+import {
+  EMPTY_NEWS_FILTERS,
+  NewsFilters,
+  facetCounts,
+  filterNews,
+  hasActiveFilters,
+  hasMoreNews,
+} from "@/lib/news";
+import { pageSlots } from "@/lib/pagination";
+import { DateTime } from "./date-time";
+import { NewsFilterBar } from "./news-filters";
+import { SentimentCorrelation } from "./sentiment-correlation";
+import { SentimentTimeline } from "./sentiment-timeline";
+
+const NEWS_PAGE_SIZE = 10;
+
+// Alpha Vantage news-sentiment article
+export const NewsCard: React.FC<{ article: NewsArticle }> = ({ article }) => {
+  // Map Alpha Vantage sentiment labels to colors
+  const getSentimentColor = (label: string) => {
+    switch (label) {
+      case "Bullish":
+      case "Somewhat-Bullish":
+        return "bg-green-100 text-green-800";
+      case "Bearish":
+      case "Somewhat-Bearish":
+        return "bg-red-100 text-red-800";
+      case "Neutral":
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+      <div className="flex justify-between items-start">
+        <h3 className="font-medium text-base">{article.title}</h3>
+        <span
+          className={`px-2 py-1 rounded text-xs font-medium ${getSentimentColor(
+            article.sentiment_label
+          )}`}
+        >
+          {article.sentiment_label}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 line-clamp-2">{article.summary}</p>
+      <div className="flex justify-between items-center text-xs text-gray-500">
+        <DateTime value={article.time_published} relative />
+        <span>{article.source}</span>
+      </div>
+      {article.topics && article.topics.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {article.topics.map((topic, index) => (
+            <span
+              key={index}
+              className="px-2 py-1 bg-blue-100 text-blue-800 rounded-full text-xs"
+            >
+              {topic}
+            </span>
+          ))}
+        </div>
+      )}
+      {article.tickers && article.tickers.length > 0 && (
+        <div className="flex gap-1 flex-wrap">
+          {article.tickers.map((ticker, index) => (
+            <span
+              key={index}
+              className="px-2 py-1 bg-purple-100 text-purple-800 rounded-full text-xs"
+            >
+              {ticker}
+            </span>
+          ))}
+        </div>
+      )}
+      <div className="pt-1">
+        <a
+          href={article.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm text-blue-600 hover:underline"
+        >
+          Read more →
+        </a>
+      </div>
+    </div>
+  );
+};
+
+// Aggregate sentiment counts for the News tab
+export const SentimentOverviewCard: React.FC<{ sentimentSummary: SentimentSummary }> = ({
+  sentimentSummary,
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Sentiment Overview</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <div className="grid grid-cols-4 gap-4">
+        <div className="p-4 bg-green-50 rounded-lg">
+          <div className="text-sm text-green-600">Positive</div>
+          <div className="text-2xl font-bold text-green-700">
+            {sentimentSummary.positive}
+          </div>
+          <div className="text-xs text-green-500 mt-1">
+            Bullish & Somewhat-Bullish
+          </div>
+        </div>
+        <div className="p-4 bg-gray-50 rounded-lg">
+          <div className="text-sm text-gray-600">Neutral</div>
+          <div className="text-2xl font-bold text-gray-700">
+            {sentimentSummary.neutral}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            Neither bullish nor bearish
+          </div>
+        </div>
+        <div className="p-4 bg-red-50 rounded-lg">
+          <div className="text-sm text-red-600">Negative</div>
+          <div className="text-2xl font-bold text-red-700">
+            {sentimentSummary.negative}
+          </div>
+          <div className="text-xs text-red-500 mt-1">
+            Bearish & Somewhat-Bearish
+          </div>
+        </div>
+        <div className="p-4 bg-blue-50 rounded-lg">
+          <div className="text-sm text-blue-600">Average Score</div>
+          <div className="text-2xl font-bold text-blue-700">
+            {sentimentSummary.average_score.toFixed(2)}
+          </div>
+          <div className="text-xs text-blue-500 mt-1">
+            {sentimentSummary.average_score > 0.15
+              ? "Bullish"
+              : sentimentSummary.average_score < -0.15
+              ? "Bearish"
+              : "Neutral"}
+          </div>
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
+
+const NewsPagination: React.FC<{
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}> = ({ page, pageCount, onChange }) => {
+  // The links are anchors; keep the click from navigating to "#".
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount) onChange(target);
+  };
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : undefined}
+            onClick={go(page - 1)}
+          />
+        </PaginationItem>
+        {pageSlots(page, pageCount).map((slot, i) => (
+          <PaginationItem key={i}>
+            {slot === "ellipsis" ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href="#" isActive={slot === page} onClick={go(slot)}>
+                {slot}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : undefined}
+            onClick={go(page + 1)}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+interface LoadMoreProps {
+  loadingMore: boolean;
+  loadMoreError: string | null;
+  // Fetches the backend's next page of articles.
+  onLoadMore: () => void;
+}
+
+// Filterable, paged list of the articles. Unfiltered, the pages cover all of
+// total_count and each one is fetched from the backend when opened.
+// Filtering is client-side, so it covers the articles loaded so far; more can
+// be loaded from below the list.
+const LatestNews: React.FC<{ news: NewsSentiment } & LoadMoreProps> = ({
+  news,
+  loadingMore,
+  loadMoreError,
+  onLoadMore,
+}) => {
+  const [filters, setFilters] = useState<NewsFilters>(EMPTY_NEWS_FILTERS);
+  const [page, setPage] = useState(1);
+  const { timeZone } = useTimeZone();
+
+  const matching = useMemo(
+    () => filterNews(news.items, filters, timeZone),
+    [news.items, filters, timeZone]
+  );
+  const counts = useMemo(
+    () => facetCounts(news.items, filters, timeZone),
+    [news.items, filters, timeZone]
+  );
+
+  const filtered = hasActiveFilters(filters);
+  const more = hasMoreNews(news);
+  const total = filtered ? matching.length : Math.max(news.total_count, news.items.length);
+  const pageCount = Math.max(Math.ceil(total / NEWS_PAGE_SIZE), 1);
+  const current = Math.min(page, pageCount);
+  const first = (current - 1) * NEWS_PAGE_SIZE;
+  const shown = matching.slice(first, first + NEWS_PAGE_SIZE);
+  // The open page reaches past the articles loaded so far.
+  const needsMore = !filtered && more && first + NEWS_PAGE_SIZE > news.items.length;
+
+  useEffect(() => {
+    if (needsMore && !loadingMore && !loadMoreError) onLoadMore();
+  }, [needsMore, loadingMore, loadMoreError, onLoadMore]);
+
+  const updateFilters = (next: NewsFilters) => {
+    setFilters(next);
+    setPage(1);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Latest News</CardTitle>
+        <p className="text-sm text-gray-500">
+          {news.items.length} of {news.total_count} articles loaded
+          {matching.length !== news.items.length && `, ${matching.length} matching`}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {news.items.length === 0 ? (
+          <p className="text-sm text-gray-500">No recent articles for this asset.</p>
+        ) : (
+          <>
+            <NewsFilterBar filters={filters} counts={counts} onChange={updateFilters} />
+            {shown.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {shown.map((article) => (
+                  <NewsCard key={article.url} article={article} />
+                ))}
+              </div>
+            )}
+            {loadMoreError ? (
+              <Alert variant="destructive">
+                <AlertTitle>Error</AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>{loadMoreError}</p>
+                  <Button type="button" variant="outline" size="sm" onClick={onLoadMore}>
+                    <RotateCw className="h-4 w-4 mr-1" />
+                    Retry
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            ) : needsMore || loadingMore ? (
+              <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+            ) : (
+              shown.length === 0 && (
+                <p className="text-sm text-gray-500">No articles match these filters.</p>
+              )
+            )}
+            {filtered && more && !loadingMore && !loadMoreError && (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-xs text-gray-500">
+                  Filters cover the {news.items.length} articles loaded so far.
+                </p>
+                <Button type="button" variant="outline" size="sm" onClick={onLoadMore}>
+                  <Download className="h-4 w-4 mr-1" />
+                  Load more articles
+                </Button>
+              </div>
+            )}
+            {pageCount > 1 && (
+              <div className="space-y-2">
+                <NewsPagination page={current} pageCount={pageCount} onChange={setPage} />
+                {shown.length > 0 && (
+                  <p className="text-center text-xs text-gray-500">
+                    Showing {first + 1}-{first + shown.length} of {total}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+// The News & Sentiment tab. Articles load separately from the prediction, so
+// the tab has its own loading and error states.
+export const NewsSentimentPanel: React.FC<{
+  news: NewsSentiment | null;
+  symbol: string;
+  // Price bars of the current analysis, for the timeline's price overlay.
+  candles?: Candle[];
+  loading: boolean;
+  error: string | null;
+  onRetry: () => void;
+} & LoadMoreProps> = ({ news, symbol, candles, loading, error, onRetry, ...loadMore }) => {
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-4">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTitle>Error</AlertTitle>
+        <AlertDescription className="space-y-2">
+          <p>{error}</p>
+          <Button type="button" variant="outline" size="sm" onClick={onRetry}>
+            <RotateCw className="h-4 w-4 mr-1" />
+            Retry
+          </Button>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!news) return null;
+
+  return (
+    <div className="space-y-4">
+      <SentimentOverviewCard sentimentSummary={news.sentiment_summary} />
+      <SentimentTimeline articles={news.items} symbol={symbol} candles={candles} />
+      {candles?.length ? (
+        <SentimentCorrelation articles={news.items} symbol={symbol} candles={candles} />
+      ) : null}
+      <LatestNews news={news} {...loadMore} />
+    </div>
+  );
+};
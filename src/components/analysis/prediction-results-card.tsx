@@ -0,0 +1,82 @@
+import React from "react";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import type { PredictionData } from "@/lib/api";
+
+export const PredictionResultsCard: React.FC<{
+  prediction: PredictionData;
+}> = ({ prediction }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>Prediction Results</CardTitle>
+    </CardHeader>
+    <CardContent>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-medium text-gray-500">Direction</h3>
+            <div className="flex items-center mt-1">
+              {prediction.prediction === "UP" ? (
+                <TrendingUp className="h-6 w-6 text-green-500 mr-2" />
+              ) : (
+                <TrendingDown className="h-6 w-6 text-red-500 mr-2" />
+              )}
+              <span
+                className={`text-2xl font-bold ${
+                  prediction.prediction === "UP"
+                    ? "text-green-600"
+                    : "text-red-600"
+                }`}
+              >
+                {prediction.prediction}
+              </span>
+            </div>
+          </div>
+          <div>
+            <h3 className="text-sm font-medium text-gray-500">Current Price</h3>
+            <p className="text-2xl font-bold mt-1">
+              ${prediction.current_price.toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">
+            Prediction Confidence
+          </h3>
+          <div className="space-y-2">
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span>Upward</span>
+                <span>{(prediction.probability_up * 100).toFixed(1)}%</span>
+              </div>
+              <Progress value={prediction.probability_up * 100} className="h-2" />
+            </div>
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span>Downward</span>
+                <span>{(prediction.probability_down * 100).toFixed(1)}%</span>
+              </div>
+              <Progress
+                value={prediction.probability_down * 100}
+                className="h-2"
+              />
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-2">
+            Model Performance
+          </h3>
+          <Progress value={prediction.accuracy * 100} className="h-2" />
+          <p className="text-sm text-gray-500 mt-1">
+            {(prediction.accuracy * 100).toFixed(1)}% accuracy on historical
+            predictions
+          </p>
+        </div>
+      </div>
+    </CardContent>
+  </Card>
+);
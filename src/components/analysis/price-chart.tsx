@@ -0,0 +1,272 @@
+import React, { useId, useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { CandlestickChart, LineChart, RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import { useChartViewport } from "@/hooks/use-chart-viewport";
+import { useIndicatorPanes } from "@/hooks/use-indicator-panes";
+import type { Candle } from "@/lib/api";
+import { formatPrice, formatVolume } from "@/lib/format";
+import { DOWN_COLOR, UP_COLOR } from "./chart-theme";
+import { DateTime } from "./date-time";
+import { IndicatorPaneControls, IndicatorPanes } from "./indicator-panes";
+
+type ChartMode = "candles" | "line";
+
+interface CandleRow extends Candle {
+  range: [number, number];
+  up: boolean;
+}
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandleRow;
+}
+
+const chartConfig = {
+  close: { label: "Close", color: "hsl(var(--chart-1))" },
+  volume: { label: "Volume", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+// Rendered as a Bar over [low, high]; the bar's pixel box is the wick, and
+// the body is placed inside it by scaling open/close into that box.
+const CandleShape: React.FC<CandleShapeProps> = ({
+  x = 0,
+  y = 0,
+  width = 0,
+  height = 0,
+  payload,
+}) => {
+  if (!payload) return null;
+  const { open, close, high, low, up } = payload;
+  const color = up ? UP_COLOR : DOWN_COLOR;
+  const scale = high === low ? 0 : height / (high - low);
+  const bodyTop = y + (high - Math.max(open, close)) * scale;
+  const bodyHeight = Math.max(Math.abs(open - close) * scale, 1);
+  const center = x + width / 2;
+  return (
+    <g stroke={color} fill={color}>
+      <line x1={center} x2={center} y1={y} y2={y + height} />
+      <rect
+        x={x + width * 0.15}
+        y={bodyTop}
+        width={Math.max(width * 0.7, 1)}
+        height={bodyHeight}
+      />
+    </g>
+  );
+};
+
+const Readout: React.FC<{ candle: Candle }> = ({ candle }) => (
+  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs font-mono tabular-nums text-gray-600">
+    <DateTime value={candle.date} className="font-medium text-gray-900" />
+    <span>O {formatPrice(candle.open)}</span>
+    <span>H {formatPrice(candle.high)}</span>
+    <span>L {formatPrice(candle.low)}</span>
+    <span className={candle.close >= candle.open ? "text-green-600" : "text-red-600"}>
+      C {formatPrice(candle.close)}
+    </span>
+    <span>V {formatVolume(candle.volume)}</span>
+  </div>
+);
+
+export const PriceChart: React.FC<{ candles: Candle[] }> = ({ candles }) => {
+  const [mode, setMode] = useState<ChartMode>("candles");
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const viewport = useChartViewport(candles.length);
+  const indicatorPanes = useIndicatorPanes();
+  // Shared by this chart's panes only, so two charts on a page hover apart.
+  const syncId = useId();
+
+  const rows = useMemo<CandleRow[]>(
+    () =>
+      candles.map((candle) => ({
+        ...candle,
+        range: [candle.low, candle.high],
+        up: candle.close >= candle.open,
+      })),
+    [candles]
+  );
+  const visible = rows.slice(viewport.start, viewport.end + 1);
+  const hovered =
+    hoverIndex !== null && visible[hoverIndex]
+      ? visible[hoverIndex]
+      : visible[visible.length - 1];
+
+  const trackHover = (state: { activeTooltipIndex?: number }) =>
+    setHoverIndex(state?.activeTooltipIndex ?? null);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        {hovered && <Readout candle={hovered} />}
+        <div className="flex items-center gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "candles" ? "secondary" : "ghost"}
+            onClick={() => setMode("candles")}
+            aria-label="Candlestick chart"
+          >
+            <CandlestickChart className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant={mode === "line" ? "secondary" : "ghost"}
+            onClick={() => setMode("line")}
+            aria-label="Line chart"
+          >
+            <LineChart className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => viewport.zoom(1 / 1.5)}
+            aria-label="Zoom in"
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() => viewport.zoom(1.5)}
+            aria-label="Zoom out"
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            disabled={!viewport.isZoomed}
+            onClick={viewport.reset}
+            aria-label="Reset zoom"
+          >
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        ref={viewport.containerRef}
+        {...viewport.bind}
+        onMouseLeave={() => setHoverIndex(null)}
+        className="cursor-grab select-none touch-none active:cursor-grabbing"
+      >
+        <ChartContainer config={chartConfig} className="aspect-auto h-[320px] w-full">
+          <ComposedChart
+            data={visible}
+            syncId={syncId}
+            margin={{ top: 8, right: 8, bottom: 0, left: 8 }}
+            onMouseMove={trackHover}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" hide />
+            <YAxis
+              orientation="right"
+              domain={["auto", "auto"]}
+              tickFormatter={formatPrice}
+              width={72}
+            />
+            <ChartTooltip
+              cursor={{ strokeDasharray: "3 3" }}
+              content={() => null}
+            />
+            {hovered && hoverIndex !== null && (
+              <ReferenceLine
+                y={hovered.close}
+                stroke="hsl(var(--muted-foreground))"
+                strokeDasharray="3 3"
+                ifOverflow="extendDomain"
+              />
+            )}
+            {mode === "candles" ? (
+              <Bar
+                dataKey="range"
+                shape={<CandleShape />}
+                isAnimationActive={false}
+              />
+            ) : (
+              <Line
+                dataKey="close"
+                type="monotone"
+                stroke="var(--color-close)"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            )}
+          </ComposedChart>
+        </ChartContainer>
+
+        <ChartContainer config={chartConfig} className="aspect-auto h-[96px] w-full">
+          <BarChart
+            data={visible}
+            syncId={syncId}
+            margin={{ top: 4, right: 8, bottom: 0, left: 8 }}
+            onMouseMove={trackHover}
+          >
+            <XAxis dataKey="date" tickLine={false} minTickGap={32} />
+            <YAxis
+              orientation="right"
+              tickFormatter={formatVolume}
+              width={72}
+              tickCount={3}
+            />
+            <ChartTooltip cursor={{ fill: "hsl(var(--muted))" }} content={() => null} />
+            <Bar dataKey="volume" isAnimationActive={false}>
+              {visible.map((row) => (
+                <Cell
+                  key={row.date}
+                  fill={row.up ? UP_COLOR : DOWN_COLOR}
+                  fillOpacity={0.5}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+
+        <IndicatorPanes
+          candles={candles}
+          panes={indicatorPanes.panes}
+          start={viewport.start}
+          end={viewport.end}
+          syncId={syncId}
+          hoverIndex={hoverIndex}
+          onMouseMove={trackHover}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <IndicatorPaneControls
+          panes={indicatorPanes.panes}
+          onAdd={indicatorPanes.add}
+          onRemove={indicatorPanes.remove}
+          onMove={indicatorPanes.move}
+        />
+        <p className="text-xs text-gray-400">
+          Scroll to zoom, drag to pan.
+        </p>
+      </div>
+    </div>
+  );
+};
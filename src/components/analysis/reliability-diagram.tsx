@@ -0,0 +1,103 @@
+import React from "react";
+import {
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+} from "@/components/ui/chart";
+import type { ReliabilityBin } from "@/lib/history";
+import { formatPercent } from "@/lib/format";
+
+const chartConfig = {
+  observedFrequency: { label: "Observed", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const BinTooltip: React.FC<{ active?: boolean; payload?: { payload: ReliabilityBin }[] }> = ({
+  active,
+  payload,
+}) => {
+  const bin = payload?.[0]?.payload;
+  if (!active || !bin) return null;
+  return (
+    <div className="grid min-w-[10rem] gap-1 rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <div className="font-medium">
+        {formatPercent(bin.lower, 0)} - {formatPercent(bin.upper, 0)}
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Forecasts</span>
+        <span className="font-mono">{bin.count}</span>
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Mean probability</span>
+        <span className="font-mono">{formatPercent(bin.meanProbability ?? 0)}</span>
+      </div>
+      <div className="flex justify-between gap-4">
+        <span className="text-muted-foreground">Went up</span>
+        <span className="font-mono">{formatPercent(bin.observedFrequency ?? 0)}</span>
+      </div>
+    </div>
+  );
+};
+
+// Observed frequency of UP against the mean forecast probability of each
+// bin. Points on the diagonal are calibrated; below it the model is
+// over-confident about UP, above it under-confident.
+export const ReliabilityDiagram: React.FC<{ bins: ReliabilityBin[] }> = ({ bins }) => {
+  const filled = bins.filter((bin) => bin.count > 0);
+  const largest = Math.max(...filled.map((bin) => bin.count), 1);
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-square max-h-[360px] w-full">
+      <ComposedChart data={filled} margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+        <CartesianGrid />
+        <XAxis
+          dataKey="meanProbability"
+          type="number"
+          domain={[0, 1]}
+          ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+          tickFormatter={(value: number) => formatPercent(value, 0)}
+          label={{ value: "Forecast probability of UP", position: "insideBottom", offset: -8 }}
+        />
+        <YAxis
+          type="number"
+          domain={[0, 1]}
+          ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+          tickFormatter={(value: number) => formatPercent(value, 0)}
+          width={48}
+        />
+        <ChartTooltip content={<BinTooltip />} />
+        <ReferenceLine
+          segment={[
+            { x: 0, y: 0 },
+            { x: 1, y: 1 },
+          ]}
+          stroke="hsl(var(--muted-foreground))"
+          strokeDasharray="4 4"
+        />
+        <Line
+          dataKey="observedFrequency"
+          stroke="var(--color-observedFrequency)"
+          strokeWidth={2}
+          isAnimationActive={false}
+          dot={({ cx, cy, payload }: { cx?: number; cy?: number; payload?: ReliabilityBin }) => (
+            <circle
+              key={payload?.lower}
+              cx={cx}
+              cy={cy}
+              // Area follows the number of forecasts in the bin.
+              r={3 + 6 * Math.sqrt((payload?.count ?? 0) / largest)}
+              fill="var(--color-observedFrequency)"
+            />
+          )}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,88 @@
+import React, { useState } from "react";
+import { FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import {
+  MarketMovers,
+  PredictionData,
+  SentimentSummary,
+  getErrorMessage,
+} from "@/lib/api";
+import type { AnalysisParams, DataProvider } from "@/lib/providers";
+import {
+  ReportImage,
+  base64PngImage,
+  buildReport,
+  reportFileName,
+  svgToImage,
+} from "@/lib/report";
+
+// Charts to include are marked with data-report-chart="<title>" inside
+// `container`. Interactive charts are rasterized from their SVG; where only
+// the backend's plot is shown, the original PNG is used.
+const captureCharts = async (
+  container: HTMLElement | null,
+  prediction: PredictionData
+): Promise<{ title: string; image: ReportImage }[]> => {
+  const marked = Array.from(
+    container?.querySelectorAll<HTMLElement>("[data-report-chart]") ?? []
+  );
+  const charts = await Promise.all(
+    marked.map(async (element) => {
+      const title = element.dataset.reportChart ?? "Chart";
+      const svg = element.querySelector<SVGSVGElement>("svg.recharts-surface");
+      if (svg) return { title, image: await svgToImage(svg) };
+      if (element.querySelector("img") && prediction.plot_base64) {
+        return { title, image: await base64PngImage(prediction.plot_base64) };
+      }
+      return null;
+    })
+  );
+  return charts.filter((chart) => chart !== null);
+};
+
+export const ReportButton: React.FC<{
+  provider: DataProvider;
+  params: AnalysisParams;
+  prediction: PredictionData;
+  marketMovers?: MarketMovers | null;
+  sentiment?: SentimentSummary | null;
+  chartsRef: React.RefObject<HTMLElement | null>;
+  onError?: (message: string) => void;
+}> = ({ provider, params, prediction, marketMovers, sentiment, chartsRef, onError }) => {
+  const [generating, setGenerating] = useState(false);
+  const { timeZone } = useTimeZone();
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const charts = await captureCharts(chartsRef.current, prediction);
+      const doc = await buildReport({
+        provider,
+        params,
+        prediction,
+        charts,
+        marketMovers,
+        sentiment,
+        timeZone,
+      });
+      doc.save(reportFileName(params));
+    } catch (err) {
+      console.error("Report error:", err);
+      onError?.(getErrorMessage(err));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" size="sm" onClick={handleGenerate} disabled={generating}>
+      {generating ? (
+        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+      ) : (
+        <FileText className="h-4 w-4 mr-1" />
+      )}
+      Generate report
+    </Button>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { PredictionData } from "@/lib/api";
+import { formatPercent, formatPrice } from "@/lib/format";
+import { RiskInputs, planTrade } from "@/lib/risk";
+import { NumberField, SelectField } from "./analysis-form";
+
+const KELLY_OPTIONS = [
+  { value: "0.25", label: "Quarter Kelly" },
+  { value: "0.5", label: "Half Kelly" },
+  { value: "1", label: "Full Kelly" },
+];
+
+const Tile: React.FC<{ label: string; value: string; hint?: string; className?: string }> = ({
+  label,
+  value,
+  hint,
+  className = "",
+}) => (
+  <div className="p-4 bg-gray-50 rounded-lg">
+    <p className="text-sm text-gray-600">{label}</p>
+    <p className={`text-2xl font-bold ${className}`}>{value}</p>
+    {hint && <p className="text-xs text-gray-500">{hint}</p>}
+  </div>
+);
+
+// Position sizing for the current call. Everything is derived on render, so
+// the plan follows the inputs as they are typed.
+export const RiskPanel: React.FC<{ prediction: PredictionData }> = ({ prediction }) => {
+  const [accountSize, setAccountSize] = useState(10000);
+  const [riskPercent, setRiskPercent] = useState(1);
+  const [atrMultiple, setAtrMultiple] = useState(2);
+  const [kellyFraction, setKellyFraction] = useState("0.5");
+
+  const inputs: RiskInputs = {
+    accountSize,
+    riskFraction: riskPercent / 100,
+    atrMultiple,
+    kellyFraction: Number(kellyFraction),
+  };
+  const plan = planTrade(prediction, inputs);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Risk and Position Size</CardTitle>
+        <p className="text-sm text-gray-500">
+          Stops and targets from the forecast interval and ATR, sized to your
+          risk per trade
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <NumberField
+            label="Account size ($)"
+            value={accountSize}
+            onChange={setAccountSize}
+            step={100}
+          />
+          <NumberField
+            label="Risk per trade (%)"
+            value={riskPercent}
+            onChange={setRiskPercent}
+            max={100}
+            step={0.1}
+          />
+          <NumberField
+            label="ATR stop multiple"
+            value={atrMultiple}
+            onChange={setAtrMultiple}
+            step={0.5}
+          />
+          <SelectField
+            label="Kelly fraction"
+            placeholder="Select fraction"
+            value={kellyFraction}
+            options={KELLY_OPTIONS}
+            onChange={setKellyFraction}
+          />
+        </div>
+
+        {!plan ? (
+          <p className="text-sm text-gray-500">
+            The prediction has no forecast to plan a trade around.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Tile
+                label={`Stop-loss (${plan.side})`}
+                value={`$${formatPrice(plan.stop)}`}
+                hint={
+                  plan.atrStop === null
+                    ? "Interval edge; no ATR reported"
+                    : `Interval $${formatPrice(plan.intervalStop)}, ATR $${formatPrice(plan.atrStop)}`
+                }
+                className="text-red-600"
+              />
+              <Tile
+                label="Take-profit"
+                value={`$${formatPrice(plan.takeProfit)}`}
+                hint={
+                  plan.rewardRisk === null
+                    ? "Target is not beyond the entry"
+                    : `Reward/risk ${plan.rewardRisk.toFixed(2)}`
+                }
+                className="text-green-600"
+              />
+              <Tile
+                label="Position size"
+                value={plan.quantity.toLocaleString(undefined, {
+                  maximumFractionDigits: 6,
+                })}
+                hint={`$${formatPrice(plan.notional)} notional, risking $${formatPrice(plan.riskAmount)}`}
+              />
+              <Tile
+                label="Kelly suggestion"
+                value={plan.suggestedRisk === null ? "-" : formatPercent(plan.suggestedRisk)}
+                hint={
+                  plan.fullKelly === null
+                    ? "Needs a positive reward/risk"
+                    : `of the account at risk; full Kelly ${formatPercent(plan.fullKelly)}`
+                }
+              />
+            </div>
+
+            {plan.stopDistance === 0 && (
+              <p className="text-sm text-yellow-700">
+                Neither the interval nor the ATR gives a stop on the losing side,
+                so no position size can be computed.
+              </p>
+            )}
+            {plan.leverage > 1 && (
+              <p className="text-sm text-yellow-700">
+                The position is {plan.leverage.toFixed(1)}x the account size and
+                needs leverage; widen the stop or lower the risk per trade.
+              </p>
+            )}
+            {plan.suggestedRisk !== null && plan.suggestedRisk < inputs.riskFraction && (
+              <p className="text-sm text-gray-500">
+                At a {formatPercent(plan.winProbability)} win probability the
+                Kelly suggestion is below your risk per trade.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
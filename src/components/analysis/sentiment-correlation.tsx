@@ -0,0 +1,274 @@
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ReferenceLine,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import type { Candle, NewsArticle } from "@/lib/api";
+import { parseTimestamp } from "@/lib/dates";
+import {
+  Correlation,
+  MAX_LAG,
+  SIGNIFICANCE_LEVEL,
+  SentimentBucketSize,
+  aggregateSentiment,
+  alignCloses,
+  crossCorrelation,
+  cryptoTicker,
+  isSignificant,
+  laggedPairs,
+  sentimentReturns,
+} from "@/lib/sentiment";
+import { SelectField } from "./analysis-form";
+
+const BUCKET_OPTIONS = [
+  { value: "day", label: "Daily" },
+  { value: "hour", label: "Hourly" },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const lagLabel = (lag: number) => (lag > 0 ? `+${lag}` : String(lag));
+
+const LAG_OPTIONS = Array.from({ length: MAX_LAG * 2 + 1 }, (_, i) => ({
+  value: String(i - MAX_LAG),
+  label: lagLabel(i - MAX_LAG),
+}));
+
+const chartConfig = {
+  pearson: { label: "Pearson", color: "hsl(var(--chart-1))" },
+  spearman: { label: "Spearman", color: "hsl(var(--chart-2))" },
+  pair: { label: "Periods", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const formatR = (correlation: Correlation | null) =>
+  correlation === null ? "-" : correlation.r.toFixed(3);
+
+const formatP = (correlation: Correlation | null) =>
+  correlation?.pValue === null || correlation?.pValue === undefined
+    ? "-"
+    : correlation.pValue < 0.001
+    ? "<0.001"
+    : correlation.pValue.toFixed(3);
+
+// Whether average news sentiment moves with, ahead of or behind price
+// returns, period by period, at lags of up to MAX_LAG periods either way.
+export const SentimentCorrelation: React.FC<{
+  articles: NewsArticle[];
+  symbol: string;
+  candles: Candle[];
+}> = ({ articles, symbol, candles }) => {
+  const [bucket, setBucket] = useState<SentimentBucketSize>("day");
+  const [lag, setLag] = useState("0");
+  const ticker = cryptoTicker(symbol);
+  const { timeZone } = useTimeZone();
+  // Hourly returns need at least hourly bars; coarser bars would give a run
+  // of zero returns between closes.
+  const [first = null, second = null] = candles
+    .slice(0, 2)
+    .map((candle) => parseTimestamp(candle.date));
+  const hourly = first !== null && second !== null && second - first <= HOUR_MS;
+  const size = hourly ? bucket : "day";
+
+  const points = useMemo(() => {
+    const buckets = aggregateSentiment(articles, size, ticker, timeZone);
+    return sentimentReturns(buckets, alignCloses(buckets, candles, timeZone));
+  }, [articles, size, ticker, candles, timeZone]);
+
+  const lags = useMemo(() => crossCorrelation(points), [points]);
+  const pairs = useMemo(
+    () =>
+      laggedPairs(points, Number(lag)).map((pair) => ({
+        sentiment: pair.x,
+        return: pair.y * 100,
+      })),
+    [points, lag]
+  );
+
+  const bars = lags.map((entry) => ({
+    lag: lagLabel(entry.lag),
+    pearson: entry.pearson?.r ?? null,
+    spearman: entry.spearman?.r ?? null,
+    pearsonSignificant: isSignificant(entry.pearson),
+    spearmanSignificant: isSignificant(entry.spearman),
+  }));
+  const hasData = lags.some((entry) => entry.pearson !== null);
+  const selected = lags.find((entry) => entry.lag === Number(lag));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sentiment and Price</CardTitle>
+        <p className="text-sm text-gray-500">
+          Correlation of average sentiment with {symbol} returns. Positive lags
+          compare sentiment with later returns (sentiment leading price)
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <SelectField
+            label="Period"
+            placeholder="Select period"
+            value={size}
+            options={hourly ? BUCKET_OPTIONS : BUCKET_OPTIONS.slice(0, 1)}
+            onChange={(value) => setBucket(value as SentimentBucketSize)}
+          />
+          <SelectField
+            label="Scatter lag"
+            placeholder="Select lag"
+            value={lag}
+            options={LAG_OPTIONS}
+            onChange={setLag}
+          />
+        </div>
+
+        {!hasData ? (
+          <p className="text-sm text-gray-500">
+            Not enough periods with both articles and prices to correlate.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+                <BarChart data={bars} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="lag" tickLine={false} />
+                  <YAxis
+                    domain={[-1, 1]}
+                    tickFormatter={(value: number) => value.toFixed(1)}
+                    width={40}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, name) =>
+                          value === null || value === undefined ? null : (
+                            <div className="flex w-full justify-between gap-4">
+                              <span className="text-muted-foreground">
+                                {chartConfig[name as keyof typeof chartConfig]?.label}
+                              </span>
+                              <span className="font-mono">{Number(value).toFixed(3)}</span>
+                            </div>
+                          )
+                        }
+                      />
+                    }
+                  />
+                  <ReferenceLine y={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="pearson" fill="var(--color-pearson)" isAnimationActive={false}>
+                    {bars.map((bar) => (
+                      <Cell key={bar.lag} fillOpacity={bar.pearsonSignificant ? 1 : 0.3} />
+                    ))}
+                  </Bar>
+                  <Bar dataKey="spearman" fill="var(--color-spearman)" isAnimationActive={false}>
+                    {bars.map((bar) => (
+                      <Cell key={bar.lag} fillOpacity={bar.spearmanSignificant ? 1 : 0.3} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ChartContainer>
+
+              <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+                <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+                  <CartesianGrid />
+                  <XAxis
+                    type="number"
+                    dataKey="sentiment"
+                    name="Sentiment"
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value: number) => value.toFixed(2)}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="return"
+                    name="Return"
+                    domain={["auto", "auto"]}
+                    tickFormatter={(value: number) => `${value.toFixed(1)}%`}
+                    width={48}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        hideLabel
+                        formatter={(value, name) => (
+                          <div className="flex w-full justify-between gap-4">
+                            <span className="text-muted-foreground">{name}</span>
+                            <span className="font-mono">
+                              {name === "Return"
+                                ? `${Number(value).toFixed(2)}%`
+                                : Number(value).toFixed(3)}
+                            </span>
+                          </div>
+                        )}
+                      />
+                    }
+                  />
+                  <Scatter data={pairs} fill="var(--color-pair)" isAnimationActive={false} />
+                </ScatterChart>
+              </ChartContainer>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              Faded bars are not significant at p &lt; {SIGNIFICANCE_LEVEL}. The
+              scatter shows sentiment against the return {lagLabel(Number(lag))}{" "}
+              {size === "day" ? "days" : "hours"} later
+              {selected && ` (${selected.n} periods, Pearson ${formatR(selected.pearson)})`}.
+            </p>
+
+            <table className="w-full">
+              <thead>
+                <tr className="border-b text-left text-sm text-gray-600">
+                  <th className="py-2">Lag</th>
+                  <th className="py-2">Periods</th>
+                  <th className="py-2">Pearson r</th>
+                  <th className="py-2">p</th>
+                  <th className="py-2">Spearman ρ</th>
+                  <th className="py-2">p</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lags.map((entry) => (
+                  <tr key={entry.lag} className="border-b text-sm">
+                    <td className="py-2">{lagLabel(entry.lag)}</td>
+                    <td className="py-2">{entry.n}</td>
+                    {[entry.pearson, entry.spearman].map((correlation, i) => (
+                      <React.Fragment key={i}>
+                        <td
+                          className={`py-2 font-mono ${
+                            isSignificant(correlation) ? "font-bold" : "text-gray-400"
+                          }`}
+                        >
+                          {formatR(correlation)}
+                        </td>
+                        <td className="py-2 font-mono">
+                          {formatP(correlation)}
+                          {correlation !== null && !isSignificant(correlation) && (
+                            <span className="ml-1 text-xs text-yellow-700">n.s.</span>
+                          )}
+                        </td>
+                      </React.Fragment>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,204 @@
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useTimeZone } from "@/hooks/use-time-zone";
+import type { Candle, NewsArticle } from "@/lib/api";
+import { TimeZoneId, formatAbsolute } from "@/lib/dates";
+import { formatPrice } from "@/lib/format";
+import {
+  SentimentBucketSize,
+  aggregateSentiment,
+  alignCloses,
+  cryptoTicker,
+} from "@/lib/sentiment";
+import { SelectField } from "./analysis-form";
+
+type Weighting = "count" | "relevance";
+
+const BUCKET_OPTIONS = [
+  { value: "day", label: "Daily" },
+  { value: "hour", label: "Hourly" },
+];
+
+const WEIGHTING_OPTIONS = [
+  { value: "count", label: "Count-weighted" },
+  { value: "relevance", label: "Relevance-weighted" },
+];
+
+const chartConfig = {
+  score: { label: "Sentiment", color: "hsl(var(--chart-1))" },
+  count: { label: "Articles", color: "hsl(var(--chart-2))" },
+  close: { label: "Price", color: "hsl(var(--muted-foreground))" },
+} satisfies ChartConfig;
+
+const bucketLabel = (
+  start: number,
+  size: SentimentBucketSize,
+  timeZone: TimeZoneId
+): string =>
+  formatAbsolute(new Date(start).toISOString(), timeZone, { withTime: size === "hour" });
+
+// Average sentiment per hour or day, over bars of article volume, with the
+// price series for the same window optionally drawn on its own axis.
+export const SentimentTimeline: React.FC<{
+  articles: NewsArticle[];
+  symbol: string;
+  candles?: Candle[];
+}> = ({ articles, symbol, candles }) => {
+  const [size, setSize] = useState<SentimentBucketSize>("day");
+  const [weighting, setWeighting] = useState<Weighting>("count");
+  const [showPrice, setShowPrice] = useState(false);
+  const ticker = cryptoTicker(symbol);
+  const { timeZone } = useTimeZone();
+
+  const rows = useMemo(() => {
+    const buckets = aggregateSentiment(articles, size, ticker, timeZone);
+    const closes = candles?.length ? alignCloses(buckets, candles, timeZone) : [];
+    return buckets.map((bucket, i) => ({
+      label: bucketLabel(bucket.start, size, timeZone),
+      count: bucket.count,
+      score: weighting === "count" ? bucket.meanScore : bucket.relevanceScore,
+      close: closes[i] ?? null,
+    }));
+  }, [articles, size, ticker, weighting, candles, timeZone]);
+
+  const missingRelevance =
+    weighting === "relevance" && rows.length > 0 && rows.every((row) => row.score === null);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sentiment Over Time</CardTitle>
+        <p className="text-sm text-gray-500">
+          Average article sentiment for {ticker} with the number of articles per{" "}
+          {size}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <SelectField
+            label="Bucket"
+            placeholder="Select bucket"
+            value={size}
+            options={BUCKET_OPTIONS}
+            onChange={(value) => setSize(value as SentimentBucketSize)}
+          />
+          <SelectField
+            label="Average"
+            placeholder="Select weighting"
+            value={weighting}
+            options={WEIGHTING_OPTIONS}
+            onChange={(value) => setWeighting(value as Weighting)}
+          />
+          <label className="flex items-center gap-2 text-sm h-10">
+            <Checkbox
+              checked={showPrice}
+              disabled={!candles?.length}
+              onCheckedChange={(checked) => setShowPrice(checked === true)}
+            />
+            Overlay price
+          </label>
+        </div>
+
+        {missingRelevance && (
+          <p className="text-sm text-gray-500">
+            None of these articles rate their relevance to {ticker}.
+          </p>
+        )}
+
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No dated articles to chart.</p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[280px] w-full">
+            <ComposedChart data={rows} margin={{ top: 8, right: 8, bottom: 0, left: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} minTickGap={32} />
+              <YAxis yAxisId="count" orientation="left" allowDecimals={false} width={32} />
+              <YAxis
+                yAxisId="score"
+                orientation="right"
+                domain={[-1, 1]}
+                tickFormatter={(value: number) => value.toFixed(1)}
+                width={40}
+              />
+              {showPrice && (
+                <YAxis
+                  yAxisId="price"
+                  orientation="right"
+                  domain={["auto", "auto"]}
+                  tickFormatter={formatPrice}
+                  width={72}
+                />
+              )}
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    indicator="line"
+                    formatter={(value, name) =>
+                      value === null || value === undefined ? null : (
+                        <div className="flex w-full justify-between gap-4">
+                          <span className="text-muted-foreground">
+                            {chartConfig[name as keyof typeof chartConfig]?.label}
+                          </span>
+                          <span className="font-mono">
+                            {name === "close"
+                              ? `$${formatPrice(Number(value))}`
+                              : name === "score"
+                              ? Number(value).toFixed(3)
+                              : value}
+                          </span>
+                        </div>
+                      )
+                    }
+                  />
+                }
+              />
+              <ReferenceLine yAxisId="score" y={0} stroke="hsl(var(--muted-foreground))" />
+              <Bar
+                yAxisId="count"
+                dataKey="count"
+                fill="var(--color-count)"
+                fillOpacity={0.4}
+                isAnimationActive={false}
+              />
+              <Line
+                yAxisId="score"
+                dataKey="score"
+                stroke="var(--color-score)"
+                strokeWidth={2}
+                dot={size === "day"}
+                connectNulls
+                isAnimationActive={false}
+              />
+              {showPrice && (
+                <Line
+                  yAxisId="price"
+                  dataKey="close"
+                  stroke="var(--color-close)"
+                  strokeDasharray="5 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,80 @@
+import React, { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { Candle, TechnicalIndicators } from "@/lib/api";
+import { indicatorSnapshot } from "@/lib/indicators";
+import { IndicatorCard } from "./indicator-card";
+
+// Backend indicator values, each cross-checked against the same indicator
+// computed locally when the OHLCV bars are available.
+export const TechnicalAnalysisCard: React.FC<{
+  indicators: TechnicalIndicators;
+  candles?: Candle[];
+}> = ({ indicators, candles }) => {
+  const local = useMemo(
+    () => (candles?.length ? indicatorSnapshot(candles) : null),
+    [candles]
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Technical Analysis</CardTitle>
+        {local && (
+          <p className="text-sm text-gray-500">
+            &quot;Local&quot; values are computed in the browser from the price
+            history with default periods
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <IndicatorCard
+            label="RSI"
+            value={indicators.rsi}
+            local={local?.rsi}
+            signal={indicators.rsi_signal}
+            description="Relative Strength Index"
+          />
+          <IndicatorCard
+            label="MACD"
+            value={indicators.macd}
+            local={local?.macd}
+            signal={indicators.macd_signal}
+            description="Moving Average Convergence Divergence"
+          />
+          <IndicatorCard
+            label="Stochastic"
+            value={indicators.stochastic}
+            local={local?.stochastic}
+            signal={indicators.stochastic_signal}
+            description="Stochastic Oscillator"
+          />
+          <IndicatorCard
+            label="ADX"
+            value={indicators.adx}
+            local={local?.adx}
+            signal={indicators.trend_strength}
+            description="Average Directional Index"
+          />
+          {/* Only the Alpha Vantage backend reports ATR and MFI. */}
+          {indicators.atr !== undefined && (
+            <IndicatorCard
+              label="ATR"
+              value={indicators.atr}
+              local={local?.atr}
+              description="Average True Range"
+            />
+          )}
+          {indicators.mfi !== undefined && (
+            <IndicatorCard
+              label="MFI"
+              value={indicators.mfi}
+              local={local?.mfi}
+              description="Money Flow Index"
+            />
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,243 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Layers, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { PredictionData, getErrorMessage } from "@/lib/api";
+import {
+  Bias,
+  DIRECTIONAL_SIGNALS,
+  alignmentLabel,
+  computeAlignment,
+  directionBias,
+  signalBias,
+} from "@/lib/alignment";
+import { runWithConcurrency } from "@/lib/batch";
+import { formatPercent } from "@/lib/format";
+import { savePrediction } from "@/lib/history";
+import type { AnalysisParams, DataProvider } from "@/lib/providers";
+
+type Reading =
+  | { status: "running" }
+  | { status: "done"; prediction: PredictionData }
+  | { status: "error"; message: string };
+
+interface MatrixRow {
+  label: string;
+  cell: (prediction: PredictionData) => { text: string; bias: Bias };
+}
+
+const BIAS_CLASSES: Record<Bias, string> = {
+  1: "bg-green-50 text-green-700",
+  [-1]: "bg-red-50 text-red-700",
+  0: "text-gray-600",
+};
+
+const ROWS: MatrixRow[] = [
+  {
+    label: "Direction",
+    cell: (prediction) => ({
+      text: prediction.prediction,
+      bias: directionBias(prediction),
+    }),
+  },
+  {
+    label: "Probability up",
+    cell: (prediction) => ({
+      text: formatPercent(prediction.probability_up),
+      bias: directionBias(prediction),
+    }),
+  },
+  ...DIRECTIONAL_SIGNALS.map(({ key, label }) => ({
+    label,
+    cell: (prediction: PredictionData) => ({
+      text: prediction.technical_indicators[key],
+      bias: signalBias(prediction.technical_indicators[key]),
+    }),
+  })),
+  {
+    label: "Trend strength",
+    cell: (prediction) => ({
+      text: `${prediction.technical_indicators.trend_strength} (ADX ${prediction.technical_indicators.adx.toFixed(0)})`,
+      bias: 0,
+    }),
+  },
+  {
+    label: "Accuracy",
+    cell: (prediction) => ({ text: formatPercent(prediction.accuracy), bias: 0 }),
+  },
+];
+
+// Runs the prediction for every timeframe the provider offers and lays the
+// results out side by side with an overall alignment score.
+export const TimeframeMatrix: React.FC<{
+  provider: DataProvider;
+  params: AnalysisParams;
+}> = ({ provider, params }) => {
+  const [readings, setReadings] = useState<Record<string, Reading>>({});
+  const [symbol, setSymbol] = useState<string | null>(null);
+  const generation = useRef(0);
+
+  useEffect(() => {
+    generation.current++;
+    setReadings({});
+    setSymbol(null);
+  }, [provider]);
+
+  const running = Object.values(readings).some((reading) => reading.status === "running");
+  const finished = Object.values(readings).filter((r) => r.status !== "running").length;
+  const predictions = provider.timeframes.flatMap(({ value }) => {
+    const reading = readings[value];
+    return reading?.status === "done" ? [reading.prediction] : [];
+  });
+  const alignment = computeAlignment(predictions);
+
+  const handleRun = async () => {
+    const run = ++generation.current;
+    setSymbol(params.symbol);
+    setReadings(
+      Object.fromEntries(
+        provider.timeframes.map(({ value }) => [value, { status: "running" }])
+      )
+    );
+
+    await runWithConcurrency(provider.timeframes, 3, async ({ value: timeframe }) => {
+      const request = { ...params, timeframe };
+      let reading: Reading;
+      try {
+        const prediction = await provider.fetchPrediction(request);
+        reading = { status: "done", prediction };
+        savePrediction(provider.id, request, prediction).catch((err) =>
+          console.error("Error saving prediction history:", err)
+        );
+      } catch (err) {
+        reading = { status: "error", message: getErrorMessage(err) };
+      }
+      if (run === generation.current) {
+        setReadings((current) => ({ ...current, [timeframe]: reading }));
+      }
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Multi-Timeframe Agreement</CardTitle>
+          <p className="text-sm text-gray-500">
+            {symbol ?? params.symbol} across{" "}
+            {provider.timeframes.map((timeframe) => timeframe.label).join(", ")}
+          </p>
+        </div>
+        <Button type="button" size="sm" onClick={handleRun} disabled={running}>
+          {running ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <Layers className="h-4 w-4 mr-1" />
+          )}
+          Run all timeframes
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {running && (
+          <Progress
+            value={(finished / provider.timeframes.length) * 100}
+            className="h-2"
+          />
+        )}
+
+        {predictions.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Alignment</p>
+              <p className="text-2xl font-bold">{formatPercent(alignment.score, 0)}</p>
+              <p className="text-xs text-gray-500">{alignmentLabel(alignment)}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Bias</p>
+              <p
+                className={`text-2xl font-bold ${
+                  alignment.bias === "UP"
+                    ? "text-green-600"
+                    : alignment.bias === "DOWN"
+                    ? "text-red-600"
+                    : ""
+                }`}
+              >
+                {alignment.bias ?? "-"}
+              </p>
+              <p className="text-xs text-gray-500">
+                {alignment.unanimous
+                  ? "Every timeframe makes the same call"
+                  : "Timeframes disagree on direction"}
+              </p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <p className="text-sm text-gray-600">Votes</p>
+              <p className="text-2xl font-bold">
+                {alignment.agreeing} / {alignment.opposing}
+              </p>
+              <p className="text-xs text-gray-500">
+                agreeing / opposing, {alignment.neutral} neutral
+              </p>
+            </div>
+          </div>
+        )}
+
+        {Object.keys(readings).length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 text-left" />
+                  {provider.timeframes.map((timeframe) => (
+                    <th key={timeframe.value} className="py-2 text-center">
+                      {timeframe.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map((row) => (
+                  <tr key={row.label} className="border-b">
+                    <td className="py-2 font-medium">{row.label}</td>
+                    {provider.timeframes.map(({ value }) => {
+                      const reading = readings[value];
+                      if (reading?.status !== "done") {
+                        return (
+                          <td key={value} className="py-2 text-center text-gray-400">
+                            {reading?.status === "running" ? "…" : "-"}
+                          </td>
+                        );
+                      }
+                      const { text, bias } = row.cell(reading.prediction);
+                      return (
+                        <td
+                          key={value}
+                          className={`py-2 text-center ${BIAS_CLASSES[bias]}`}
+                        >
+                          {text}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {provider.timeframes.map(({ value, label }) => {
+          const reading = readings[value];
+          return reading?.status === "error" ? (
+            <Alert key={value} variant="destructive">
+              <AlertTitle>{label}</AlertTitle>
+              <AlertDescription>{reading.message}</AlertDescription>
+            </Alert>
+          ) : null;
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,120 @@
+"use client"
+
+import * as React from "react"
+import { KeyRound, Loader2 } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { CredentialStatus, getErrorMessage } from "@/lib/api"
+
+const statusLabel = (status: CredentialStatus | null) => {
+  if (!status) return "Checking…"
+  if (status.source === "session") return "Using your session key"
+  if (status.source === "server") return "Using server key"
+  return "Not configured"
+}
+
+export function ApiKeySettings({
+  status,
+  onSave,
+  onClear,
+}: {
+  status: CredentialStatus | null
+  onSave: (apiKey: string) => Promise<void>
+  onClear: () => Promise<void>
+}) {
+  const [open, setOpen] = React.useState(false)
+  const [apiKey, setApiKey] = React.useState("")
+  const [saving, setSaving] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      await action()
+      setApiKey("")
+      setOpen(false)
+    } catch (err) {
+      setError(getErrorMessage(err))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Alpha Vantage API Key</label>
+      <div className="flex items-center justify-between gap-2">
+        <Badge variant={status?.configured ? "secondary" : "destructive"}>
+          {statusLabel(status)}
+        </Badge>
+        <Dialog open={open} onOpenChange={setOpen}>
+          <DialogTrigger asChild>
+            <Button type="button" variant="outline" size="sm">
+              <KeyRound className="h-4 w-4" />
+              Manage
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Alpha Vantage API key</DialogTitle>
+              <DialogDescription>
+                Your key is stored on the server for this session only and is
+                never sent back to the browser.
+              </DialogDescription>
+            </DialogHeader>
+            <form
+              className="grid gap-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                // The dialog is portaled, but React still bubbles the submit
+                // to a form around the trigger (analysis, batch).
+                e.stopPropagation()
+                run(() => onSave(apiKey))
+              }}
+            >
+              <Label htmlFor="alpha-vantage-key">Your API key</Label>
+              <Input
+                id="alpha-vantage-key"
+                type="password"
+                autoComplete="off"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder="Enter your API key"
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+              <DialogFooter className="pt-2">
+                {status?.source === "session" && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    disabled={saving}
+                    onClick={() => run(onClear)}
+                  >
+                    Remove my key
+                  </Button>
+                )}
+                <Button type="submit" disabled={saving || !apiKey.trim()}>
+                  {saving && <Loader2 className="h-4 w-4 animate-spin" />}
+                  Save key
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  )
+}
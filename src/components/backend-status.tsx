@@ -0,0 +1,75 @@
+"use client"
+
+import * as React from "react"
+import Link from "next/link"
+import { Server } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { BackendHealth, BackendPath, checkBackendHealth } from "@/lib/api"
+import { useAnalysisEndpoint } from "@/hooks/use-analysis-endpoint"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+
+const HEALTH_INTERVAL_MS = 60_000
+
+export function BackendStatus({ backend }: { backend: BackendPath }) {
+  const { endpoint } = useAnalysisEndpoint()
+  const [health, setHealth] = React.useState<BackendHealth | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    const check = () =>
+      checkBackendHealth(endpoint, backend).then((next) => {
+        if (!cancelled) setHealth(next)
+      })
+
+    setHealth(null)
+    check()
+    const timer = window.setInterval(check, HEALTH_INTERVAL_MS)
+    return () => {
+      cancelled = true
+      window.clearInterval(timer)
+    }
+  }, [endpoint, backend])
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Link
+            href="/settings"
+            className="inline-flex items-center gap-2 rounded-md border px-2 py-1 text-xs font-medium text-muted-foreground hover:bg-accent"
+          >
+            <span
+              className={cn(
+                "h-2 w-2 rounded-full",
+                !health && "bg-gray-300",
+                health?.reachable && "bg-green-500",
+                health?.problem && "bg-yellow-500",
+                health && !health.reachable && !health.problem && "bg-red-500"
+              )}
+            />
+            <Server className="h-3 w-3" />
+            {endpoint.label}
+          </Link>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div>{endpoint.origin ?? "No origin configured"}</div>
+          <div>
+            {!health
+              ? "Checking…"
+              : health.problem
+              ? `Misconfigured: ${health.problem}`
+              : health.reachable
+              ? `Reachable (${health.latencyMs} ms)`
+              : "Unreachable"}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,36 @@
+import * as React from "react"
+import {
+  ENDPOINT_CHANGE_EVENT,
+  Endpoint,
+  EndpointSelection,
+  getDefaultEndpointId,
+  loadEndpointSelection,
+  resolveEndpoint,
+  saveEndpointSelection,
+} from "@/lib/api"
+
+export function useAnalysisEndpoint() {
+  // Start from the configured default so server and client render the same
+  // markup, then pick up any runtime override after mount.
+  const [selection, setSelection] = React.useState<EndpointSelection>(() => ({
+    id: getDefaultEndpointId(),
+  }))
+
+  React.useEffect(() => {
+    const sync = () => setSelection(loadEndpointSelection())
+    sync()
+    window.addEventListener(ENDPOINT_CHANGE_EVENT, sync)
+    window.addEventListener("storage", sync)
+    return () => {
+      window.removeEventListener(ENDPOINT_CHANGE_EVENT, sync)
+      window.removeEventListener("storage", sync)
+    }
+  }, [])
+
+  const endpoint: Endpoint = React.useMemo(
+    () => resolveEndpoint(selection),
+    [selection]
+  )
+
+  return { selection, endpoint, update: saveEndpointSelection }
+}
@@ -0,0 +1,94 @@
+import * as React from "react"
+import { getErrorMessage } from "@/lib/api"
+import {
+  BacktestRequest,
+  BacktestResult,
+  BacktestWorkerRequest,
+  BacktestWorkerResponse,
+  runBacktest,
+} from "@/lib/backtest"
+
+// Runs backtests off the main thread. Where workers are unavailable, or the
+// worker fails to load or to deliver a message, the simulation runs inline;
+// only the latest run's result is kept.
+export function useBacktest() {
+  const [result, setResult] = React.useState<BacktestResult | null>(null)
+  const [running, setRunning] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const worker = React.useRef<Worker | null>(null)
+  const latest = React.useRef(0)
+  // The request the worker is working on, replayed inline if it fails.
+  const pending = React.useRef<BacktestRequest | null>(null)
+
+  const runInline = React.useCallback((request: BacktestRequest) => {
+    try {
+      setResult(runBacktest(request))
+    } catch (err) {
+      setError(getErrorMessage(err))
+    } finally {
+      setRunning(false)
+    }
+  }, [])
+
+  React.useEffect(() => {
+    if (typeof Worker === "undefined") return
+    const instance = new Worker(
+      new URL("../lib/backtest/backtest.worker.ts", import.meta.url)
+    )
+    instance.onmessage = (event: MessageEvent<BacktestWorkerResponse>) => {
+      const response = event.data
+      if (response.id !== latest.current) return
+      pending.current = null
+      if ("error" in response) {
+        setError(response.error)
+      } else {
+        setResult(response.result)
+      }
+      setRunning(false)
+    }
+    const fallBack = () => {
+      instance.terminate()
+      worker.current = null
+      const request = pending.current
+      pending.current = null
+      if (request) runInline(request)
+    }
+    instance.onerror = (event) => {
+      event.preventDefault()
+      fallBack()
+    }
+    instance.onmessageerror = fallBack
+    worker.current = instance
+    return () => {
+      instance.terminate()
+      worker.current = null
+    }
+  }, [runInline])
+
+  const run = React.useCallback(
+    (request: BacktestRequest) => {
+      const id = ++latest.current
+      setRunning(true)
+      setError(null)
+
+      if (worker.current) {
+        pending.current = request
+        const message: BacktestWorkerRequest = { id, request }
+        worker.current.postMessage(message)
+        return
+      }
+      runInline(request)
+    },
+    [runInline]
+  )
+
+  const reset = React.useCallback(() => {
+    latest.current++
+    pending.current = null
+    setResult(null)
+    setError(null)
+    setRunning(false)
+  }, [])
+
+  return { result, running, error, run, reset }
+}
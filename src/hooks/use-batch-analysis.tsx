@@ -0,0 +1,123 @@
+import * as React from "react"
+import { getErrorMessage } from "@/lib/api"
+import { BatchEntry, runWithConcurrency } from "@/lib/batch"
+import { savePrediction } from "@/lib/history"
+import type { AnalysisParams, DataProvider } from "@/lib/providers"
+
+export const DEFAULT_BATCH_CONCURRENCY = 3
+
+// Runs /predict for a list of symbols with a bounded number of requests in
+// flight. Starting a new batch abandons the results of the previous one.
+export function useBatchAnalysis(provider: DataProvider) {
+  const [entries, setEntries] = React.useState<BatchEntry[]>([])
+  const [running, setRunning] = React.useState(false)
+  const generation = React.useRef(0)
+  const settings = React.useRef<{
+    params: Omit<AnalysisParams, "symbol">
+    concurrency: number
+  }>({
+    params: provider.defaults,
+    concurrency: DEFAULT_BATCH_CONCURRENCY,
+  })
+
+  React.useEffect(() => {
+    generation.current++
+    setEntries([])
+    setRunning(false)
+  }, [provider])
+
+  const patch = React.useCallback(
+    (
+      run: number,
+      symbol: string,
+      change: (entry: BatchEntry) => Partial<BatchEntry>
+    ) => {
+      if (run !== generation.current) return
+      setEntries((current) =>
+        current.map((entry) =>
+          entry.symbol === symbol ? { ...entry, ...change(entry) } : entry
+        )
+      )
+    },
+    []
+  )
+
+  const analyze = React.useCallback(
+    async (run: number, symbol: string) => {
+      if (run !== generation.current) return
+      const params = { ...settings.current.params, symbol }
+      patch(run, symbol, (entry) => ({
+        status: "running",
+        attempts: entry.attempts + 1,
+      }))
+      try {
+        const prediction = await provider.fetchPrediction(params)
+        patch(run, symbol, () => ({
+          status: "done",
+          prediction,
+          error: undefined,
+        }))
+        savePrediction(provider.id, params, prediction).catch((err) =>
+          console.error("Error saving prediction history:", err)
+        )
+      } catch (err) {
+        patch(run, symbol, () => ({
+          status: "error",
+          error: getErrorMessage(err),
+        }))
+      }
+    },
+    [provider, patch]
+  )
+
+  const execute = React.useCallback(
+    async (run: number, symbols: string[]) => {
+      setRunning(true)
+      await runWithConcurrency(symbols, settings.current.concurrency, (symbol) =>
+        analyze(run, symbol)
+      )
+      if (run === generation.current) setRunning(false)
+    },
+    [analyze]
+  )
+
+  const start = React.useCallback(
+    (
+      symbols: string[],
+      params: Omit<AnalysisParams, "symbol">,
+      concurrency = DEFAULT_BATCH_CONCURRENCY
+    ) => {
+      const run = ++generation.current
+      settings.current = { params, concurrency }
+      setEntries(
+        symbols.map((symbol) => ({ symbol, status: "queued", attempts: 0 }))
+      )
+      return execute(run, symbols)
+    },
+    [execute]
+  )
+
+  // Re-queues the given symbols (by default every failed one) with the
+  // settings of the current batch.
+  const retry = React.useCallback(
+    (symbols?: string[]) => {
+      const targets =
+        symbols ??
+        entries.filter((entry) => entry.status === "error").map((e) => e.symbol)
+      if (!targets.length) return
+      setEntries((current) =>
+        current.map((entry) =>
+          targets.includes(entry.symbol) ? { ...entry, status: "queued" } : entry
+        )
+      )
+      return execute(generation.current, targets)
+    },
+    [entries, execute]
+  )
+
+  const finished = entries.filter(
+    (entry) => entry.status === "done" || entry.status === "error"
+  ).length
+
+  return { entries, running, finished, start, retry }
+}
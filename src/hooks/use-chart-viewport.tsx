@@ -0,0 +1,100 @@
+import * as React from "react"
+
+const MIN_VISIBLE_BARS = 10
+const WHEEL_ZOOM_STEP = 1.15
+
+export interface ChartViewport {
+  start: number
+  end: number
+}
+
+// Shared pan/zoom window over an indexed series. Charts slice their data to
+// [start, end] so every pane that uses the same viewport stays in sync.
+export function useChartViewport(length: number) {
+  const full = React.useMemo(
+    () => ({ start: 0, end: Math.max(length - 1, 0) }),
+    [length]
+  )
+  const [viewport, setViewport] = React.useState<ChartViewport>(full)
+  const containerRef = React.useRef<HTMLDivElement | null>(null)
+  const dragRef = React.useRef<{ x: number; viewport: ChartViewport } | null>(
+    null
+  )
+
+  React.useEffect(() => setViewport(full), [full])
+
+  const clamp = React.useCallback(
+    (start: number, span: number): ChartViewport => {
+      const size = Math.min(Math.max(span, Math.min(MIN_VISIBLE_BARS, length)), length)
+      const first = Math.min(Math.max(Math.round(start), 0), Math.max(length - size, 0))
+      return { start: first, end: first + size - 1 }
+    },
+    [length]
+  )
+
+  // `anchor` is the 0..1 position inside the visible window that stays put.
+  const zoom = React.useCallback(
+    (factor: number, anchor = 0.5) =>
+      setViewport((current) => {
+        const span = current.end - current.start + 1
+        const nextSpan = Math.round(span * factor)
+        const pivot = current.start + anchor * span
+        return clamp(pivot - anchor * nextSpan, nextSpan)
+      }),
+    [clamp]
+  )
+
+  const pan = React.useCallback(
+    (bars: number) =>
+      setViewport((current) =>
+        clamp(current.start + bars, current.end - current.start + 1)
+      ),
+    [clamp]
+  )
+
+  const reset = React.useCallback(() => setViewport(full), [full])
+
+  // Wheel listeners must be non-passive to stop the page from scrolling.
+  React.useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const rect = element.getBoundingClientRect()
+      const anchor = rect.width ? (event.clientX - rect.left) / rect.width : 0.5
+      zoom(event.deltaY > 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP, anchor)
+    }
+    element.addEventListener("wheel", onWheel, { passive: false })
+    return () => element.removeEventListener("wheel", onWheel)
+  }, [zoom])
+
+  const bind = {
+    onPointerDown: (event: React.PointerEvent<HTMLDivElement>) => {
+      dragRef.current = { x: event.clientX, viewport }
+    },
+    onPointerMove: (event: React.PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current
+      const element = containerRef.current
+      if (!drag || !element || !element.clientWidth) return
+      const span = drag.viewport.end - drag.viewport.start + 1
+      const bars = ((drag.x - event.clientX) / element.clientWidth) * span
+      setViewport(clamp(drag.viewport.start + bars, span))
+    },
+    onPointerUp: () => {
+      dragRef.current = null
+    },
+    onPointerLeave: () => {
+      dragRef.current = null
+    },
+  }
+
+  return {
+    ...viewport,
+    isZoomed: viewport.start !== full.start || viewport.end !== full.end,
+    zoom,
+    pan,
+    reset,
+    containerRef,
+    bind,
+  }
+}
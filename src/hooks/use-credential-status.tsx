@@ -0,0 +1,33 @@
+import * as React from "react"
+import {
+  CredentialStatus,
+  clearSessionApiKey,
+  fetchCredentialStatus,
+  saveSessionApiKey,
+} from "@/lib/api"
+
+export function useCredentialStatus() {
+  const [status, setStatus] = React.useState<CredentialStatus | null>(null)
+
+  React.useEffect(() => {
+    let cancelled = false
+    fetchCredentialStatus()
+      .then((next) => {
+        if (!cancelled) setStatus(next)
+      })
+      .catch((err) => console.error("Error loading API key status:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const save = React.useCallback(async (apiKey: string) => {
+    setStatus(await saveSessionApiKey(apiKey))
+  }, [])
+
+  const clear = React.useCallback(async () => {
+    setStatus(await clearSessionApiKey())
+  }, [])
+
+  return { status, save, clear }
+}
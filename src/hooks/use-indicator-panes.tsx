@@ -0,0 +1,77 @@
+import * as React from "react"
+import {
+  DEFAULT_INDICATOR_PANES,
+  IndicatorPaneId,
+  isIndicatorPaneId,
+} from "@/lib/indicators"
+
+const STORAGE_KEY = "indicator-panes"
+
+const loadPanes = (): IndicatorPaneId[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null")
+    if (Array.isArray(stored)) {
+      return Array.from(new Set(stored.filter(isIndicatorPaneId)))
+    }
+  } catch {
+    // Fall back to the defaults when the stored layout is unreadable.
+  }
+  return DEFAULT_INDICATOR_PANES
+}
+
+// Ordered list of indicator panes under the price chart, remembered in this
+// browser's localStorage.
+export function useIndicatorPanes() {
+  const [panes, setPanes] = React.useState<IndicatorPaneId[]>(
+    DEFAULT_INDICATOR_PANES
+  )
+
+  // Only layouts the user changed are written back, not the defaults.
+  const changed = React.useRef(false)
+
+  React.useEffect(() => setPanes(loadPanes()), [])
+
+  React.useEffect(() => {
+    if (changed.current) {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(panes))
+    }
+  }, [panes])
+
+  const update = React.useCallback(
+    (change: (current: IndicatorPaneId[]) => IndicatorPaneId[]) =>
+      setPanes((current) => {
+        const next = change(current)
+        if (next !== current) changed.current = true
+        return next
+      }),
+    []
+  )
+
+  const add = React.useCallback(
+    (id: IndicatorPaneId) =>
+      update((current) => (current.includes(id) ? current : [...current, id])),
+    [update]
+  )
+
+  const remove = React.useCallback(
+    (id: IndicatorPaneId) =>
+      update((current) => current.filter((pane) => pane !== id)),
+    [update]
+  )
+
+  const move = React.useCallback(
+    (id: IndicatorPaneId, offset: -1 | 1) =>
+      update((current) => {
+        const from = current.indexOf(id)
+        const to = from + offset
+        if (from < 0 || to < 0 || to >= current.length) return current
+        const next = [...current]
+        next.splice(from, 1)
+        next.splice(to, 0, id)
+        return next
+      }),
+    [update]
+  )
+
+  return { panes, add, remove, move }
+}
@@ -0,0 +1,38 @@
+import * as React from "react"
+import { getErrorMessage } from "@/lib/api"
+import {
+  PredictionRecord,
+  listPredictions,
+  loadRealizedPrices,
+} from "@/lib/history"
+
+// Stored predictions (newest first) and the realized closes to score them
+// against. `records` is null until the first load finishes.
+export function usePredictionHistory() {
+  const [records, setRecords] = React.useState<PredictionRecord[] | null>(null)
+  const [prices, setPrices] = React.useState<
+    Map<string, Record<string, number>>
+  >(new Map())
+  const [error, setError] = React.useState<string | null>(null)
+
+  const reload = React.useCallback(async () => {
+    try {
+      const [nextRecords, nextPrices] = await Promise.all([
+        listPredictions(),
+        loadRealizedPrices(),
+      ])
+      setRecords(nextRecords)
+      setPrices(nextPrices)
+      setError(null)
+    } catch (err) {
+      setRecords((current) => current ?? [])
+      setError(getErrorMessage(err))
+    }
+  }, [])
+
+  React.useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { records, prices, error, reload }
+}
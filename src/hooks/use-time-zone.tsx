@@ -0,0 +1,27 @@
+import * as React from "react"
+import {
+  DEFAULT_TIME_ZONE,
+  TIME_ZONE_CHANGE_EVENT,
+  TimeZoneId,
+  loadTimeZone,
+  saveTimeZone,
+} from "@/lib/dates"
+
+// The display time zone picked on the settings page, kept in sync across
+// components and tabs.
+export function useTimeZone() {
+  const [timeZone, setTimeZone] = React.useState<TimeZoneId>(DEFAULT_TIME_ZONE)
+
+  React.useEffect(() => {
+    const sync = () => setTimeZone(loadTimeZone())
+    sync()
+    window.addEventListener(TIME_ZONE_CHANGE_EVENT, sync)
+    window.addEventListener("storage", sync)
+    return () => {
+      window.removeEventListener(TIME_ZONE_CHANGE_EVENT, sync)
+      window.removeEventListener("storage", sync)
+    }
+  }, [])
+
+  return { timeZone, update: saveTimeZone }
+}
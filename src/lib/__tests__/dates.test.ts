@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { dayKey, formatAbsolute, formatRelative, parseDate, parseTimestamp } from "../dates";
+
+// Pin the "local" preset to a zone west of UTC, so its days differ from both
+// UTC and WIB.
+beforeAll(() => {
+  process.env.TZ = "America/New_York";
+});
+
+describe("parseDate", () => {
+  it("reads Alpha Vantage timestamps as UTC", () => {
+    expect(parseDate("20250224T231000")).toEqual({
+      time: Date.UTC(2025, 1, 24, 23, 10, 0),
+      dateOnly: false,
+    });
+    expect(parseTimestamp("20250224T2310")).toBe(Date.UTC(2025, 1, 24, 23, 10));
+  });
+
+  it("reads calendar days as UTC midnight", () => {
+    expect(parseDate("2024-01-01")).toEqual({ time: Date.UTC(2024, 0, 1), dateOnly: true });
+  });
+
+  it("reads ISO 8601 with and without an offset", () => {
+    expect(parseTimestamp("2024-01-01T10:00:00+07:00")).toBe(Date.UTC(2024, 0, 1, 3));
+    expect(parseTimestamp("2024-01-01T10:00:00Z")).toBe(Date.UTC(2024, 0, 1, 10));
+    expect(parseTimestamp("2024-01-01T10:00:00")).toBe(Date.UTC(2024, 0, 1, 10));
+  });
+
+  it("reads wall-clock times in a named zone on both sides of DST", () => {
+    expect(parseTimestamp("2024-01-01 16:15:59 US/Eastern")).toBe(
+      Date.UTC(2024, 0, 1, 21, 15, 59)
+    );
+    expect(parseTimestamp("2024-07-01 16:15:59 US/Eastern")).toBe(
+      Date.UTC(2024, 6, 1, 20, 15, 59)
+    );
+  });
+
+  it("returns null for anything else", () => {
+    expect(parseDate("not a date")).toBeNull();
+    expect(parseDate("2024-01-01 10:00 Mars/Olympus")).toBeNull();
+    expect(parseTimestamp("")).toBeNull();
+  });
+});
+
+describe("dayKey", () => {
+  it("moves to the next day in WIB first", () => {
+    // 00:30 WIB on the 25th, still the 24th in UTC and New York.
+    const value = "2025-02-24T17:30:00Z";
+    expect(dayKey(value, "Asia/Jakarta")).toBe("2025-02-25");
+    expect(dayKey(value, "UTC")).toBe("2025-02-24");
+    expect(dayKey(value, "local")).toBe("2025-02-24");
+  });
+
+  it("stays on the previous day in a zone west of UTC", () => {
+    // 22:00 on the 24th in New York.
+    const value = "20250225T030000";
+    expect(dayKey(value, "Asia/Jakarta")).toBe("2025-02-25");
+    expect(dayKey(value, "UTC")).toBe("2025-02-25");
+    expect(dayKey(value, "local")).toBe("2025-02-24");
+  });
+
+  it("keeps calendar days in every zone", () => {
+    for (const zone of ["local", "Asia/Jakarta", "UTC"] as const) {
+      expect(dayKey("2024-01-01", zone)).toBe("2024-01-01");
+    }
+  });
+
+  it("is null for unparseable values", () => {
+    expect(dayKey("soon", "UTC")).toBeNull();
+  });
+});
+
+describe("formatAbsolute", () => {
+  it("shows the time in the selected zone", () => {
+    expect(formatAbsolute("20250224T231000", "Asia/Jakarta")).toBe("Feb 25, 2025, 06:10 WIB");
+    expect(formatAbsolute("20250224T231000", "UTC")).toBe("Feb 24, 2025, 23:10 UTC");
+    expect(formatAbsolute("20250224T231000", "local")).toBe("Feb 24, 2025, 18:10");
+  });
+
+  it("drops the time on request and for calendar days", () => {
+    expect(formatAbsolute("20250224T231000", "Asia/Jakarta", { withTime: false })).toBe(
+      "Feb 25, 2025"
+    );
+    expect(formatAbsolute("2024-01-01", "Asia/Jakarta")).toBe("Jan 1, 2024");
+    expect(formatAbsolute("2024-01-01", "local")).toBe("Jan 1, 2024");
+  });
+
+  it("passes unparseable values through", () => {
+    expect(formatAbsolute("n/a", "UTC")).toBe("n/a");
+  });
+});
+
+describe("formatRelative", () => {
+  const now = Date.UTC(2025, 1, 24, 12, 0);
+
+  it("counts minutes, hours and days", () => {
+    expect(formatRelative("2025-02-24T11:59:30Z", "UTC", now)).toBe("just now");
+    expect(formatRelative("2025-02-24T11:55:00Z", "UTC", now)).toBe("5m ago");
+    expect(formatRelative("20250224T090000", "UTC", now)).toBe("3h ago");
+    expect(formatRelative("2025-02-22T12:00:00Z", "UTC", now)).toBe("2d ago");
+    expect(formatRelative("2025-02-24T14:00:00Z", "UTC", now)).toBe("in 2h");
+  });
+
+  it("falls back to the date a week or more away", () => {
+    expect(formatRelative("2025-02-14T12:00:00Z", "UTC", now)).toBe("Feb 14, 2025");
+  });
+
+  it("counts calendar days in the selected zone", () => {
+    // 20:00 UTC is already 03:00 on the 25th in WIB and 15:00 on the 24th in
+    // New York.
+    const evening = Date.UTC(2025, 1, 24, 20, 0);
+    expect(formatRelative("2025-02-24", "UTC", evening)).toBe("today");
+    expect(formatRelative("2025-02-24", "Asia/Jakarta", evening)).toBe("yesterday");
+    expect(formatRelative("2025-02-24", "local", evening)).toBe("today");
+    expect(formatRelative("2025-02-25", "UTC", evening)).toBe("tomorrow");
+    expect(formatRelative("2025-02-25", "Asia/Jakarta", evening)).toBe("today");
+    expect(formatRelative("2025-02-20", "UTC", evening)).toBe("4d ago");
+  });
+});
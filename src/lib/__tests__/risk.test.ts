@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import type { PredictionData } from "@/lib/api";
+import { RiskInputs, planTrade } from "../risk";
+
+const INPUTS: RiskInputs = {
+  accountSize: 10000,
+  riskFraction: 0.01,
+  atrMultiple: 2,
+  kellyFraction: 0.5,
+};
+
+// A call from 100 whose last forecast step has the interval [low, high].
+const prediction = (
+  call: "UP" | "DOWN",
+  probabilityUp: number,
+  [low, high]: [number, number],
+  atr?: number
+): PredictionData => ({
+  prediction: call,
+  probability_up: probabilityUp,
+  probability_down: 1 - probabilityUp,
+  current_price: 100,
+  technical_indicators: {
+    rsi: 50,
+    rsi_signal: "Neutral",
+    macd: 0,
+    macd_signal: "Neutral",
+    stochastic: 50,
+    stochastic_signal: "Neutral",
+    adx: 20,
+    trend_strength: "Weak",
+    atr,
+  },
+  accuracy: 0.7,
+  plot_base64: "",
+  forecast: [
+    {
+      date: "2025-01-02",
+      predicted_price: (low + high) / 2,
+      prediction_interval_low: low,
+      prediction_interval_high: high,
+      direction: call,
+      probability: 0.6,
+    },
+  ],
+});
+
+describe("planTrade", () => {
+  it("sizes a long from the interval stop when it is the wider one", () => {
+    const plan = planTrade(prediction("UP", 0.6, [95, 110], 2), INPUTS)!;
+    expect(plan).toMatchObject({
+      side: "long",
+      intervalStop: 95,
+      takeProfit: 110,
+      atrStop: 96,
+      stop: 95,
+      stopDistance: 5,
+      rewardRisk: 2,
+      riskAmount: 100,
+      quantity: 20,
+      notional: 2000,
+      leverage: 0.2,
+      winProbability: 0.6,
+    });
+    // Kelly: p - (1 - p) / b = 0.6 - 0.4 / 2, halved.
+    expect(plan.fullKelly).toBeCloseTo(0.4, 10);
+    expect(plan.suggestedRisk).toBeCloseTo(0.2, 10);
+  });
+
+  it("uses the ATR stop when it is further away", () => {
+    const plan = planTrade(prediction("UP", 0.6, [95, 110], 5), INPUTS)!;
+    expect(plan.stop).toBe(90);
+    expect(plan.stopDistance).toBe(10);
+    expect(plan.rewardRisk).toBe(1);
+    expect(plan.quantity).toBe(10);
+    expect(plan.fullKelly).toBeCloseTo(0.2, 10);
+  });
+
+  it("mirrors stops and targets for a short", () => {
+    const plan = planTrade(prediction("DOWN", 0.3, [90, 104]), INPUTS)!;
+    expect(plan).toMatchObject({
+      side: "short",
+      stop: 104,
+      takeProfit: 90,
+      atrStop: null,
+      stopDistance: 4,
+      rewardRisk: 2.5,
+      quantity: 25,
+    });
+    expect(plan.winProbability).toBeCloseTo(0.7, 10);
+    expect(plan.fullKelly).toBeCloseTo(0.7 - 0.3 / 2.5, 10);
+  });
+
+  it("has no size when the interval offers no stop", () => {
+    const plan = planTrade(prediction("UP", 0.6, [101, 105]), INPUTS)!;
+    expect(plan.stopDistance).toBe(0);
+    expect(plan.quantity).toBe(0);
+    expect(plan.rewardRisk).toBeNull();
+    expect(plan.suggestedRisk).toBeNull();
+  });
+
+  it("has no reward-to-risk when the target is on the losing side", () => {
+    const plan = planTrade(prediction("UP", 0.6, [95, 98]), INPUTS)!;
+    expect(plan.rewardRisk).toBeNull();
+    expect(plan.fullKelly).toBeNull();
+  });
+
+  it("never suggests a negative bet", () => {
+    const plan = planTrade(prediction("UP", 0.3, [95, 110]), INPUTS)!;
+    expect(plan.fullKelly).toBeCloseTo(-0.05, 10);
+    expect(plan.suggestedRisk).toBe(0);
+  });
+
+  it("needs a forecast and a price", () => {
+    expect(planTrade({ ...prediction("UP", 0.6, [95, 110]), forecast: [] }, INPUTS)).toBeNull();
+    expect(
+      planTrade({ ...prediction("UP", 0.6, [95, 110]), current_price: 0 }, INPUTS)
+    ).toBeNull();
+  });
+});
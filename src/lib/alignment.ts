@@ -0,0 +1,78 @@
+import type { PredictionData } from "@/lib/api";
+
+// +1 bullish, -1 bearish, 0 no directional reading.
+export type Bias = 1 | -1 | 0;
+
+const BULLISH = ["bullish", "buy", "oversold", "up"];
+const BEARISH = ["bearish", "sell", "overbought", "down"];
+
+// Reads a backend signal label as a directional vote. Oversold and
+// overbought are read as mean-reversion calls; anything else (Neutral, or a
+// trend strength such as Strong/Weak) carries no direction.
+export const signalBias = (signal: string): Bias => {
+  const value = signal.trim().toLowerCase();
+  if (BULLISH.some((word) => value.includes(word))) return 1;
+  if (BEARISH.some((word) => value.includes(word))) return -1;
+  return 0;
+};
+
+export const directionBias = (prediction: PredictionData): Bias =>
+  prediction.prediction === "UP" ? 1 : -1;
+
+// The signal labels that carry a direction, as shown in the matrix.
+export const DIRECTIONAL_SIGNALS = [
+  { key: "rsi_signal", label: "RSI" },
+  { key: "macd_signal", label: "MACD" },
+  { key: "stochastic_signal", label: "Stochastic" },
+] as const;
+
+export interface Alignment {
+  // Direction the timeframes lean towards, weighted by their confidence.
+  bias: "UP" | "DOWN" | null;
+  // Share of directional votes (calls and signals) that agree with `bias`.
+  score: number;
+  // Every timeframe calls the same direction.
+  unanimous: boolean;
+  agreeing: number;
+  opposing: number;
+  neutral: number;
+}
+
+export const ALIGNMENT_LEVELS = [
+  { min: 0.8, label: "Strong confluence" },
+  { min: 0.6, label: "Moderate confluence" },
+  { min: 0, label: "Mixed signals" },
+] as const;
+
+export const alignmentLabel = (alignment: Alignment): string =>
+  alignment.bias === null
+    ? "No clear bias"
+    : ALIGNMENT_LEVELS.find((level) => alignment.score >= level.min)!.label;
+
+export const computeAlignment = (predictions: PredictionData[]): Alignment => {
+  const lean = predictions.reduce(
+    (sum, prediction) => sum + (prediction.probability_up - 0.5),
+    0
+  );
+  const bias: Bias = lean > 0 ? 1 : lean < 0 ? -1 : 0;
+
+  const votes = predictions.flatMap((prediction) => [
+    directionBias(prediction),
+    ...DIRECTIONAL_SIGNALS.map(({ key }) =>
+      signalBias(prediction.technical_indicators[key])
+    ),
+  ]);
+  const agreeing = votes.filter((vote) => vote !== 0 && vote === bias).length;
+  const opposing = votes.filter((vote) => vote !== 0 && vote !== bias).length;
+
+  return {
+    bias: bias === 0 ? null : bias === 1 ? "UP" : "DOWN",
+    score: bias === 0 || agreeing + opposing === 0 ? 0 : agreeing / (agreeing + opposing),
+    unanimous:
+      predictions.length > 0 &&
+      predictions.every((prediction) => prediction.prediction === predictions[0].prediction),
+    agreeing,
+    opposing,
+    neutral: votes.length - agreeing - opposing,
+  };
+};
@@ -0,0 +1,246 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import { ApiError, describeZodError } from "./errors";
+import {
+  BackendPath,
+  Endpoint,
+  PROXY_ERROR_HEADER,
+  backendBaseUrl,
+  endpointHeaders,
+  getActiveEndpoint,
+} from "./endpoints";
+import {
+  AlphaVantageFormData,
+  CredentialStatus,
+  MarketMovers,
+  NewsSentiment,
+  PredictionData,
+  YahooFormData,
+  YahooNewsResponse,
+  credentialStatusSchema,
+  marketMoversSchema,
+  newsSentimentSchema,
+  predictionDataSchema,
+  yahooNewsResponseSchema,
+} from "./schemas";
+
+type Schema<T> = ZodType<T, ZodTypeDef, unknown>;
+
+const readErrorDetail = async (response: Response): Promise<string | null> => {
+  try {
+    const body = await response.json();
+    if (body && typeof body.detail === "string") return body.detail;
+  } catch {
+    // Non-JSON error bodies fall back to the generic message.
+  }
+  return null;
+};
+
+async function request<T>(
+  url: string,
+  schema: Schema<T>,
+  fallbackMessage: string,
+  init?: RequestInit
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new ApiError(
+      "network",
+      "Unable to reach the analysis service. Check your connection and try again."
+    );
+  }
+
+  if (!response.ok) {
+    const detail = await readErrorDetail(response);
+    throw new ApiError("http", detail || fallbackMessage, response.status);
+  }
+
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    throw new ApiError(
+      "validation",
+      "The analysis service returned a response that is not valid JSON."
+    );
+  }
+
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new ApiError(
+      "validation",
+      `The analysis service returned an incomplete response (${describeZodError(
+        parsed.error
+      )}).`
+    );
+  }
+  return parsed.data;
+}
+
+// Routes a call to the backend selected in the endpoint registry.
+function backendRequest<T>(
+  backend: BackendPath,
+  path: string,
+  schema: Schema<T>,
+  fallbackMessage: string,
+  init: RequestInit = {}
+): Promise<T> {
+  const endpoint = getActiveEndpoint();
+  return request(`${backendBaseUrl(endpoint, backend)}${path}`, schema, fallbackMessage, {
+    ...init,
+    headers: { ...endpointHeaders(endpoint), ...init.headers },
+  });
+}
+
+const postJson = (body: unknown): RequestInit => ({
+  method: "POST",
+  headers: {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  },
+  body: JSON.stringify(body),
+});
+
+// === ALPHA VANTAGE ===
+export const fetchAlphaVantagePrediction = (
+  formData: AlphaVantageFormData
+): Promise<PredictionData> =>
+  backendRequest(
+    "api-analysis",
+    "/predict",
+    predictionDataSchema,
+    "Failed to fetch prediction",
+    { ...postJson(formData), credentials: "same-origin" }
+  );
+
+export const fetchAlphaVantageMarketMovers = (): Promise<MarketMovers> =>
+  backendRequest(
+    "api-analysis",
+    "/market-movers",
+    marketMoversSchema,
+    "Failed to fetch market data"
+  );
+
+// News with per-article sentiment for one base currency, newest first.
+// `offset` skips that many articles of the backend's total_count.
+export const fetchAlphaVantageNews = (
+  symbol: string,
+  offset = 0,
+  limit = 50
+): Promise<NewsSentiment> =>
+  backendRequest(
+    "api-analysis",
+    `/news?symbol=${encodeURIComponent(symbol)}&limit=${limit}&offset=${offset}`,
+    newsSentimentSchema,
+    "Failed to fetch news sentiment",
+    { credentials: "same-origin" }
+  );
+
+// === YAHOO ===
+export const fetchYahooPrediction = (
+  formData: YahooFormData
+): Promise<PredictionData> =>
+  backendRequest(
+    "api-analysis-yahoo",
+    "/predict",
+    predictionDataSchema,
+    "Failed to fetch prediction",
+    postJson(formData)
+  );
+
+export const fetchYahooMarketMovers = (): Promise<MarketMovers> =>
+  backendRequest(
+    "api-analysis-yahoo",
+    "/market-movers",
+    marketMoversSchema,
+    "Failed to fetch market data"
+  );
+
+export const fetchYahooNews = (symbol: string): Promise<YahooNewsResponse> =>
+  backendRequest(
+    "api-analysis-yahoo",
+    `/news?symbol=${encodeURIComponent(symbol)}`,
+    yahooNewsResponseSchema,
+    "Failed to fetch news"
+  );
+
+// === HEALTH ===
+export interface BackendHealth {
+  reachable: boolean;
+  status: number | null;
+  latencyMs: number | null;
+  // Why the proxy refused to forward the probe (no origin configured, origin
+  // not allowed, ...); null when the service was asked or is simply down.
+  problem: string | null;
+}
+
+const proxyProblem = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    if (typeof body?.detail === "string") return body.detail;
+  } catch {
+    // Fall through to the status line.
+  }
+  return `The proxy answered HTTP ${response.status}`;
+};
+
+// Any answer of the service below 500 means it is up; the upstream services
+// do not share a dedicated health route, so a 404 still counts as reachable.
+// Answers the proxy wrote itself say nothing about the service.
+export const checkBackendHealth = async (
+  endpoint: Endpoint,
+  backend: BackendPath
+): Promise<BackendHealth> => {
+  const started = performance.now();
+  try {
+    const response = await fetch(`${backendBaseUrl(endpoint, backend)}/health`, {
+      headers: endpointHeaders(endpoint),
+      cache: "no-store",
+    });
+    const latencyMs = Math.round(performance.now() - started);
+    if (response.headers.has(PROXY_ERROR_HEADER)) {
+      return {
+        reachable: false,
+        status: response.status,
+        latencyMs,
+        // A 502 means the proxy tried and the service did not answer.
+        problem: response.status < 500 ? await proxyProblem(response) : null,
+      };
+    }
+    return {
+      reachable: response.status < 500,
+      status: response.status,
+      latencyMs,
+      problem: null,
+    };
+  } catch {
+    return { reachable: false, status: null, latencyMs: null, problem: null };
+  }
+};
+
+// === CREDENTIALS ===
+const CREDENTIALS_URL = "/api/credentials";
+
+export const fetchCredentialStatus = (): Promise<CredentialStatus> =>
+  request(
+    CREDENTIALS_URL,
+    credentialStatusSchema,
+    "Failed to load API key status"
+  );
+
+export const saveSessionApiKey = (apiKey: string): Promise<CredentialStatus> =>
+  request(
+    CREDENTIALS_URL,
+    credentialStatusSchema,
+    "Failed to save API key",
+    { ...postJson({ api_key: apiKey }), method: "PUT" }
+  );
+
+export const clearSessionApiKey = (): Promise<CredentialStatus> =>
+  request(
+    CREDENTIALS_URL,
+    credentialStatusSchema,
+    "Failed to clear API key",
+    { method: "DELETE" }
+  );
@@ -0,0 +1,120 @@
+// Registry of analysis backends. Each preset is the origin that hosts both
+// /api-analysis and /api-analysis-yahoo. NEXT_PUBLIC_API_ENV picks the
+// default, and users can override it at runtime from /settings; the override
+// lives in localStorage.
+
+export type EndpointId = "mock" | "dev" | "staging" | "prod" | "custom";
+
+export interface Endpoint {
+  id: EndpointId;
+  label: string;
+  origin: string | null;
+}
+
+export interface EndpointSelection {
+  id: EndpointId;
+  customOrigin?: string;
+}
+
+export const ENDPOINT_HEADER = "X-Analysis-Endpoint";
+export const ENDPOINT_ORIGIN_HEADER = "X-Analysis-Origin";
+export const ENDPOINT_CHANGE_EVENT = "analysis-endpoint-change";
+// Set on responses the proxy writes itself, without reaching the backend.
+export const PROXY_ERROR_HEADER = "X-Proxy-Error";
+
+const STORAGE_KEY = "analysis-endpoint";
+const MOCK_ORIGIN = "/api/mock";
+
+export const ENDPOINT_PRESETS: readonly Endpoint[] = [
+  { id: "mock", label: "Local mock", origin: MOCK_ORIGIN },
+  {
+    id: "dev",
+    label: "Development",
+    origin: process.env.NEXT_PUBLIC_API_ORIGIN_DEV ?? "http://localhost:8000",
+  },
+  {
+    id: "staging",
+    label: "Staging",
+    origin: process.env.NEXT_PUBLIC_API_ORIGIN_STAGING ?? null,
+  },
+  {
+    id: "prod",
+    label: "Production",
+    origin:
+      process.env.NEXT_PUBLIC_API_ORIGIN_PROD ??
+      "https://portal2.incoe.astra.co.id",
+  },
+];
+
+const isEndpointId = (value: unknown): value is EndpointId =>
+  value === "custom" || ENDPOINT_PRESETS.some((preset) => preset.id === value);
+
+export const getDefaultEndpointId = (): EndpointId => {
+  const configured = process.env.NEXT_PUBLIC_API_ENV;
+  return isEndpointId(configured) && configured !== "custom" ? configured : "prod";
+};
+
+export const normalizeOrigin = (origin: string): string =>
+  origin.trim().replace(/\/+$/, "");
+
+export const resolveEndpoint = (selection: EndpointSelection): Endpoint => {
+  if (selection.id === "custom") {
+    return {
+      id: "custom",
+      label: "Custom",
+      origin: selection.customOrigin ? normalizeOrigin(selection.customOrigin) : null,
+    };
+  }
+  return (
+    ENDPOINT_PRESETS.find((preset) => preset.id === selection.id) ??
+    ENDPOINT_PRESETS.find((preset) => preset.id === "prod")!
+  );
+};
+
+// === RUNTIME OVERRIDE (browser only) ===
+export const loadEndpointSelection = (): EndpointSelection => {
+  const fallback: EndpointSelection = { id: getDefaultEndpointId() };
+  if (typeof window === "undefined") return fallback;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && isEndpointId(stored.id)) {
+      return {
+        id: stored.id,
+        customOrigin:
+          typeof stored.customOrigin === "string" ? stored.customOrigin : undefined,
+      };
+    }
+  } catch {
+    // Ignore unreadable overrides and fall back to the configured default.
+  }
+  return fallback;
+};
+
+export const saveEndpointSelection = (selection: EndpointSelection | null) => {
+  if (selection) {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+  window.dispatchEvent(new Event(ENDPOINT_CHANGE_EVENT));
+};
+
+export const getActiveEndpoint = (): Endpoint =>
+  resolveEndpoint(loadEndpointSelection());
+
+// === REQUEST ROUTING ===
+export type BackendPath = "api-analysis" | "api-analysis-yahoo";
+
+// The mock is served locally; every other endpoint is reached through
+// /api/proxy, which needs to know which upstream the user picked.
+export const backendBaseUrl = (endpoint: Endpoint, backend: BackendPath): string =>
+  endpoint.id === "mock" ? `${MOCK_ORIGIN}/${backend}` : `/api/proxy/${backend}`;
+
+export const endpointHeaders = (endpoint: Endpoint): Record<string, string> => {
+  if (endpoint.id === "mock") return {};
+  const headers: Record<string, string> = { [ENDPOINT_HEADER]: endpoint.id };
+  if (endpoint.id === "custom" && endpoint.origin) {
+    headers[ENDPOINT_ORIGIN_HEADER] = endpoint.origin;
+  }
+  return headers;
+};
@@ -0,0 +1,29 @@
+import type { ZodError } from "zod";
+
+export type ApiErrorKind = "network" | "http" | "validation";
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+
+  constructor(kind: ApiErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = status;
+  }
+}
+
+// Summarise the first few schema issues as "path: message" so the alert
+// points at the missing or malformed field instead of a render crash.
+export const describeZodError = (error: ZodError, limit = 3): string => {
+  const issues = error.issues.slice(0, limit).map((issue) => {
+    const path = issue.path.join(".") || "response";
+    return `${path}: ${issue.message}`;
+  });
+  const rest = error.issues.length - issues.length;
+  return rest > 0 ? `${issues.join("; ")} (+${rest} more)` : issues.join("; ");
+};
+
+export const getErrorMessage = (err: unknown): string =>
+  err instanceof Error ? err.message : "An error occurred";
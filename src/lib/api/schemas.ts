@@ -0,0 +1,150 @@
+import { z } from "zod";
+
+// === PREDICTION ===
+export const forecastPointSchema = z.object({
+  date: z.string(),
+  predicted_price: z.number(),
+  prediction_interval_low: z.number(),
+  prediction_interval_high: z.number(),
+  direction: z.string(),
+  probability: z.number(),
+});
+
+// The Yahoo backend does not compute ATR or MFI, so both are optional here.
+export const technicalIndicatorsSchema = z.object({
+  rsi: z.number(),
+  rsi_signal: z.string(),
+  macd: z.number(),
+  macd_signal: z.string(),
+  stochastic: z.number(),
+  stochastic_signal: z.string(),
+  adx: z.number(),
+  trend_strength: z.string(),
+  atr: z.number().optional(),
+  mfi: z.number().optional(),
+});
+
+export const candleSchema = z.object({
+  date: z.string(),
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+
+export const predictionDataSchema = z.object({
+  prediction: z.enum(["UP", "DOWN"]),
+  probability_up: z.number(),
+  probability_down: z.number(),
+  current_price: z.number(),
+  technical_indicators: technicalIndicatorsSchema,
+  accuracy: z.number(),
+  plot_base64: z.string(),
+  forecast: z.array(forecastPointSchema),
+  // Historical OHLCV bars behind the prediction. Older backends only send
+  // the rendered plot_base64 image.
+  ohlcv: z.array(candleSchema).optional(),
+});
+
+// === MARKET ===
+export const tickerInfoSchema = z.object({
+  ticker: z.string(),
+  price: z.coerce.number(),
+  change_amount: z.coerce.number(),
+  change_percentage: z.coerce.number(),
+  volume: z.coerce.number(),
+});
+
+export const marketMoversSchema = z.object({
+  top_gainers: z.array(tickerInfoSchema),
+  top_losers: z.array(tickerInfoSchema),
+  most_actively_traded: z.array(tickerInfoSchema),
+  last_updated: z.string(),
+});
+
+// === NEWS ===
+// How much an article is about one ticker, and its sentiment towards it.
+export const tickerSentimentSchema = z.object({
+  ticker: z.string(),
+  relevance_score: z.coerce.number(),
+  ticker_sentiment_score: z.coerce.number(),
+  ticker_sentiment_label: z.string(),
+});
+
+export const newsArticleSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  time_published: z.string(),
+  authors: z.array(z.string()).default([]),
+  summary: z.string(),
+  source: z.string(),
+  category_within_source: z.string().default(""),
+  source_domain: z.string().default(""),
+  sentiment_score: z.number(),
+  sentiment_label: z.string(),
+  topics: z.array(z.string()).default([]),
+  tickers: z.array(z.string()).default([]),
+  ticker_sentiment: z.array(tickerSentimentSchema).default([]),
+});
+
+export const sentimentSummarySchema = z.object({
+  positive: z.number(),
+  neutral: z.number(),
+  negative: z.number(),
+  average_score: z.number(),
+});
+
+export const newsSentimentSchema = z.object({
+  items: z.array(newsArticleSchema),
+  sentiment_summary: sentimentSummarySchema,
+  total_count: z.number(),
+});
+
+export const yahooNewsArticleSchema = z.object({
+  title: z.string(),
+  url: z.string(),
+  publisher: z.string(),
+  published_date: z.string(),
+  summary: z.string(),
+});
+
+export const yahooNewsResponseSchema = z.object({
+  items: z.array(yahooNewsArticleSchema),
+  total_count: z.number(),
+});
+
+// === CREDENTIALS ===
+export const credentialStatusSchema = z.object({
+  configured: z.boolean(),
+  source: z.enum(["session", "server"]).nullable(),
+});
+
+// === REQUESTS ===
+// The Alpha Vantage key is injected by the server-side proxy, never sent here.
+export interface AlphaVantageFormData {
+  base_currency: string;
+  quote_currency: string;
+  timeframe: string;
+  period: string;
+}
+
+export interface YahooFormData {
+  symbol: string;
+  timeframe: string;
+  period: string;
+}
+
+export type ForecastPoint = z.infer<typeof forecastPointSchema>;
+export type Candle = z.infer<typeof candleSchema>;
+export type TechnicalIndicators = z.infer<typeof technicalIndicatorsSchema>;
+export type PredictionData = z.infer<typeof predictionDataSchema>;
+export type TickerInfo = z.infer<typeof tickerInfoSchema>;
+export type MarketMovers = z.infer<typeof marketMoversSchema>;
+export type TickerSentiment = z.infer<typeof tickerSentimentSchema>;
+export type NewsArticle = z.infer<typeof newsArticleSchema>;
+export type SentimentSummary = z.infer<typeof sentimentSummarySchema>;
+export type NewsSentiment = z.infer<typeof newsSentimentSchema>;
+export type YahooNewsArticle = z.infer<typeof yahooNewsArticleSchema>;
+export type YahooNewsResponse = z.infer<typeof yahooNewsResponseSchema>;
+export type CredentialStatus = z.infer<typeof credentialStatusSchema>;
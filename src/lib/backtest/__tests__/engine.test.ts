@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import type { Candle } from "@/lib/api";
+import { BacktestConfig, PredictionSignal, periodsPerYear, runBacktest } from "..";
+
+// Daily bars from [open, close] pairs.
+const bars = (prices: [number, number][]): Candle[] =>
+  prices.map(([open, close], i) => ({
+    date: `2025-01-0${i + 1}`,
+    open,
+    high: Math.max(open, close),
+    low: Math.min(open, close),
+    close,
+    volume: 1,
+  }));
+
+const RISING = bars([
+  [100, 100],
+  [100, 110],
+  [110, 120],
+  [120, 120],
+  [120, 130],
+]);
+
+const config = (overrides: Partial<BacktestConfig> = {}): BacktestConfig => ({
+  rule: { kind: "prediction", minProbability: 0.5, holdBars: 2 },
+  initialCapital: 1000,
+  feeBps: 0,
+  slippageBps: 0,
+  positionFraction: 1,
+  periodsPerYear: 365,
+  ...overrides,
+});
+
+// An UP call on the first bar: long for its close and the next one.
+const SIGNALS: PredictionSignal[] = [
+  { date: "2025-01-01T12:00:00.000Z", direction: "UP", probabilityUp: 0.7 },
+];
+
+describe("runBacktest", () => {
+  it("enters and exits at the next bar's open", () => {
+    const { equity, trades, metrics } = runBacktest({
+      candles: RISING,
+      signals: SIGNALS,
+      config: config(),
+    });
+    // 10 units bought at 100 on bar 2, sold at 120 on bar 4.
+    expect(equity.map((point) => point.equity)).toEqual([1000, 1100, 1200, 1200, 1200]);
+    expect(trades).toEqual([
+      {
+        entryDate: "2025-01-02",
+        exitDate: "2025-01-04",
+        entryPrice: 100,
+        exitPrice: 120,
+        quantity: 10,
+        fees: 0,
+        pnl: 200,
+        returnPct: 0.2,
+        open: false,
+      },
+    ]);
+    expect(metrics.totalReturn).toBeCloseTo(0.2, 10);
+    expect(metrics.buyAndHoldReturn).toBeCloseTo(0.3, 10);
+    expect(metrics.exposure).toBe(0.4);
+    expect(metrics.winRate).toBe(1);
+    expect(metrics.maxDrawdown).toBe(0);
+  });
+
+  it("moves fills by the slippage and charges the fee on both sides", () => {
+    const { trades, metrics } = runBacktest({
+      candles: RISING,
+      signals: SIGNALS,
+      config: config({ feeBps: 10, slippageBps: 50 }),
+    });
+    const [trade] = trades;
+    expect(trade.entryPrice).toBeCloseTo(100.5, 10);
+    expect(trade.exitPrice).toBeCloseTo(119.4, 10);
+
+    // The entry fee comes out of the capital, so 1000 / 1.001 is invested.
+    const notional = 1000 / 1.001;
+    const proceeds = (notional / 100.5) * 119.4;
+    expect(metrics.finalEquity).toBeCloseTo(proceeds * 0.999, 8);
+    expect(metrics.totalFees).toBeCloseTo(notional * 0.001 + proceeds * 0.001, 8);
+    expect(trade.fees).toBeCloseTo(metrics.totalFees, 10);
+    expect(trade.pnl).toBeCloseTo(proceeds * 0.999 - 1000, 8);
+  });
+
+  it("invests only the position fraction", () => {
+    const { equity } = runBacktest({
+      candles: RISING,
+      signals: SIGNALS,
+      config: config({ positionFraction: 0.5 }),
+    });
+    // 5 units and 500 in cash.
+    expect(equity.map((point) => point.equity)).toEqual([1000, 1050, 1100, 1100, 1100]);
+  });
+
+  it("marks a position still open at the last close", () => {
+    const { trades, metrics } = runBacktest({
+      candles: RISING,
+      signals: [{ ...SIGNALS[0], date: "2025-01-03T12:00:00.000Z" }],
+      config: config({ rule: { kind: "prediction", minProbability: 0.5, holdBars: 10 } }),
+    });
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ entryPrice: 120, exitPrice: 130, open: true });
+    expect(trades[0].pnl).toBeCloseTo((1000 / 120) * 130 - 1000, 8);
+    // Only closed trades count towards the win rate.
+    expect(metrics.winRate).toBeNull();
+    expect(metrics.tradeCount).toBe(1);
+  });
+
+  it("measures drawdown from the running peak", () => {
+    const { equity, metrics } = runBacktest({
+      candles: bars([
+        [100, 100],
+        [100, 110],
+        [110, 88],
+        [88, 99],
+      ]),
+      signals: SIGNALS,
+      config: config({ rule: { kind: "prediction", minProbability: 0.5, holdBars: 10 } }),
+    });
+    expect(equity.map((point) => point.equity)).toEqual([1000, 1100, 880, 990]);
+    expect(metrics.maxDrawdown).toBeCloseTo(-0.2, 10);
+    expect(equity[3].drawdown).toBeCloseTo(-0.1, 10);
+  });
+
+  it("annualizes the Sharpe ratio of per-bar returns", () => {
+    // Returns 0.1, 1/11, 0, 0: mean 0.047727, sample deviation 0.055236.
+    const { metrics } = runBacktest({
+      candles: RISING,
+      signals: SIGNALS,
+      config: config(),
+    });
+    expect(metrics.sharpe).toBeCloseTo((0.0477273 / 0.0552355) * Math.sqrt(365), 3);
+  });
+
+  it("has no Sharpe ratio for a flat equity curve", () => {
+    const { metrics } = runBacktest({ candles: RISING, signals: [], config: config() });
+    expect(metrics.sharpe).toBeNull();
+    expect(metrics.tradeCount).toBe(0);
+    expect(metrics.finalEquity).toBe(1000);
+  });
+});
+
+describe("periodsPerYear", () => {
+  it("maps both providers' timeframes", () => {
+    expect(periodsPerYear("daily")).toBe(365);
+    expect(periodsPerYear("1wk")).toBe(52);
+    expect(periodsPerYear("monthly")).toBe(12);
+    expect(periodsPerYear("unknown")).toBe(365);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { Candle } from "@/lib/api";
+import { PredictionSignal, SignalRule, targetPositions } from "..";
+
+const candles = (dates: string[]): Candle[] =>
+  dates.map((date) => ({ date, open: 100, high: 101, low: 99, close: 100, volume: 1 }));
+
+const signal = (
+  date: string,
+  direction: "UP" | "DOWN" = "UP",
+  probabilityUp = 0.7
+): PredictionSignal => ({ date, direction, probabilityUp });
+
+const RULE: SignalRule = { kind: "prediction", minProbability: 0.6, holdBars: 2 };
+
+const WEEKS = candles(["2025-01-06", "2025-01-13", "2025-01-20", "2025-01-27"]);
+
+describe("prediction rule", () => {
+  it("places a signal on the first weekly bar after it", () => {
+    // Made on a Wednesday; the next bar is the following Monday.
+    expect(targetPositions(WEEKS, [signal("2025-01-08T15:00:00.000Z")], RULE)).toEqual([
+      false,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("places a signal on the daily bar of its own day", () => {
+    const days = candles(["2025-01-01", "2025-01-02", "2025-01-03", "2025-01-04"]);
+    expect(targetPositions(days, [signal("2025-01-02T12:00:00.000Z")], RULE)).toEqual([
+      false,
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it("does not place a signal on an earlier intraday bar", () => {
+    const hours = candles([
+      "2025-01-02T00:00:00Z",
+      "2025-01-02T12:00:00Z",
+      "2025-01-02T18:00:00Z",
+    ]);
+    expect(targetPositions(hours, [signal("2025-01-02T13:00:00.000Z")], RULE)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("needs a probability above the threshold", () => {
+    const signals = [signal("2025-01-06T10:00:00.000Z", "UP", 0.6)];
+    expect(targetPositions(WEEKS, signals, RULE)).toEqual([false, false, false, false]);
+  });
+
+  it("lets a later DOWN call on the same bar win", () => {
+    const signals = [
+      signal("2025-01-07T10:00:00.000Z"),
+      signal("2025-01-09T10:00:00.000Z", "DOWN"),
+    ];
+    expect(targetPositions(WEEKS, signals, RULE)).toEqual([false, false, false, false]);
+  });
+
+  it("closes early on a DOWN call and ignores signals after the last bar", () => {
+    const signals = [
+      signal("2025-01-06T10:00:00.000Z"),
+      signal("2025-01-10T10:00:00.000Z", "DOWN"),
+      signal("2025-02-01T10:00:00.000Z"),
+    ];
+    expect(targetPositions(WEEKS, signals, RULE)).toEqual([true, false, false, false]);
+  });
+});
@@ -0,0 +1,15 @@
+// Deep imports keep the worker bundle free of the HTTP client.
+import { getErrorMessage } from "@/lib/api/errors";
+import { runBacktest } from "./engine";
+import type { BacktestWorkerRequest, BacktestWorkerResponse } from "./types";
+
+addEventListener("message", (event: MessageEvent<BacktestWorkerRequest>) => {
+  const { id, request } = event.data;
+  let response: BacktestWorkerResponse;
+  try {
+    response = { id, result: runBacktest(request) };
+  } catch (err) {
+    response = { id, error: getErrorMessage(err) };
+  }
+  postMessage(response);
+});
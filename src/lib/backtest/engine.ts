@@ -0,0 +1,144 @@
+import { targetPositions } from "./signals";
+import type {
+  BacktestMetrics,
+  BacktestRequest,
+  BacktestResult,
+  EquityPoint,
+  Trade,
+} from "./types";
+
+const BPS = 10_000;
+
+interface OpenPosition {
+  entryDate: string;
+  entryPrice: number;
+  quantity: number;
+  cost: number;
+  fees: number;
+}
+
+const sharpeRatio = (equity: EquityPoint[], periodsPerYear: number): number | null => {
+  const returns = equity
+    .slice(1)
+    .map((point, i) => point.equity / equity[i].equity - 1);
+  if (returns.length < 2) return null;
+  const mean = returns.reduce((sum, value) => sum + value, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  return deviation === 0 ? null : (mean / deviation) * Math.sqrt(periodsPerYear);
+};
+
+// Long-only replay. Orders fill at the next bar's open, moved against us by
+// the slippage, and pay the fee on every fill. Equity is marked at each close.
+export const runBacktest = ({ candles, signals, config }: BacktestRequest): BacktestResult => {
+  const fee = config.feeBps / BPS;
+  const slippage = config.slippageBps / BPS;
+  const targets = targetPositions(candles, signals, config.rule);
+
+  let cash = config.initialCapital;
+  let position: OpenPosition | null = null;
+  let peak = config.initialCapital;
+  let totalFees = 0;
+  const trades: Trade[] = [];
+  const equity: EquityPoint[] = [];
+
+  for (let i = 0; i < candles.length; i++) {
+    const candle = candles[i];
+    const wantLong = i > 0 && targets[i - 1];
+
+    if (wantLong && !position) {
+      const price = candle.open * (1 + slippage);
+      const notional = (cash * config.positionFraction) / (1 + fee);
+      const entryFee = notional * fee;
+      if (notional > 0 && price > 0) {
+        cash -= notional + entryFee;
+        totalFees += entryFee;
+        position = {
+          entryDate: candle.date,
+          entryPrice: price,
+          quantity: notional / price,
+          cost: notional + entryFee,
+          fees: entryFee,
+        };
+      }
+    } else if (!wantLong && position) {
+      const price = candle.open * (1 - slippage);
+      const proceeds = position.quantity * price;
+      const exitFee = proceeds * fee;
+      cash += proceeds - exitFee;
+      totalFees += exitFee;
+      const pnl = proceeds - exitFee - position.cost;
+      trades.push({
+        entryDate: position.entryDate,
+        exitDate: candle.date,
+        entryPrice: position.entryPrice,
+        exitPrice: price,
+        quantity: position.quantity,
+        fees: position.fees + exitFee,
+        pnl,
+        returnPct: pnl / position.cost,
+        open: false,
+      });
+      position = null;
+    }
+
+    const value = cash + (position ? position.quantity * candle.close : 0);
+    peak = Math.max(peak, value);
+    equity.push({
+      date: candle.date,
+      equity: value,
+      drawdown: value / peak - 1,
+      inPosition: position !== null,
+    });
+  }
+
+  const last = candles[candles.length - 1];
+  if (position && last) {
+    const proceeds = position.quantity * last.close;
+    trades.push({
+      entryDate: position.entryDate,
+      exitDate: last.date,
+      entryPrice: position.entryPrice,
+      exitPrice: last.close,
+      quantity: position.quantity,
+      fees: position.fees,
+      pnl: proceeds - position.cost,
+      returnPct: (proceeds - position.cost) / position.cost,
+      open: true,
+    });
+  }
+
+  const closed = trades.filter((trade) => !trade.open);
+  const finalEquity = equity[equity.length - 1]?.equity ?? config.initialCapital;
+  const metrics: BacktestMetrics = {
+    finalEquity,
+    totalReturn: finalEquity / config.initialCapital - 1,
+    buyAndHoldReturn: candles.length ? last.close / candles[0].open - 1 : 0,
+    maxDrawdown: Math.min(0, ...equity.map((point) => point.drawdown)),
+    sharpe: sharpeRatio(equity, config.periodsPerYear),
+    winRate: closed.length
+      ? closed.filter((trade) => trade.pnl > 0).length / closed.length
+      : null,
+    tradeCount: trades.length,
+    totalFees,
+    exposure: equity.length
+      ? equity.filter((point) => point.inPosition).length / equity.length
+      : 0,
+  };
+
+  return { equity, trades, metrics };
+};
+
+// Bars per year for each timeframe the providers offer; crypto trades every day.
+const PERIODS_PER_YEAR: Record<string, number> = {
+  daily: 365,
+  "1d": 365,
+  weekly: 52,
+  "1wk": 52,
+  monthly: 12,
+  "1mo": 12,
+};
+
+export const periodsPerYear = (timeframe: string): number =>
+  PERIODS_PER_YEAR[timeframe] ?? 365;
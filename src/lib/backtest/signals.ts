@@ -0,0 +1,72 @@
+import type { Candle } from "@/lib/api/schemas";
+import { parseDate, parseTimestamp } from "@/lib/dates";
+import { macd, rsi } from "@/lib/indicators";
+import type { PredictionSignal, SignalRule } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Places each signal on the first bar on or after the time it was made, so
+// weekly and monthly bars pick up the predictions made between them. Bars
+// dated by calendar day count from the start of that day. Of several signals
+// on one bar the latest wins.
+const signalsByBar = (
+  candles: Candle[],
+  signals: PredictionSignal[]
+): Map<number, PredictionSignal> => {
+  const bars = candles.map((candle) => parseDate(candle.date));
+  const placed = new Map<number, PredictionSignal>();
+  for (const signal of signals) {
+    const time = parseTimestamp(signal.date);
+    if (time === null) continue;
+    const day = Math.floor(time / DAY_MS) * DAY_MS;
+    const index = bars.findIndex(
+      (bar) => bar !== null && bar.time >= (bar.dateOnly ? day : time)
+    );
+    if (index >= 0) placed.set(index, signal);
+  }
+  return placed;
+};
+
+// Whether the rule wants to be long at the close of each bar. The engine acts
+// on it at the next bar's open, so no bar trades on its own close.
+export const targetPositions = (
+  candles: Candle[],
+  signals: PredictionSignal[],
+  rule: SignalRule
+): boolean[] => {
+  const closes = candles.map((candle) => candle.close);
+
+  switch (rule.kind) {
+    case "prediction": {
+      const placed = signalsByBar(candles, signals);
+      let remaining = 0;
+      return candles.map((_, i) => {
+        const signal = placed.get(i);
+        if (signal?.direction === "UP" && signal.probabilityUp > rule.minProbability) {
+          remaining = rule.holdBars;
+        } else if (signal?.direction === "DOWN") {
+          remaining = 0;
+        }
+        const long = remaining > 0;
+        remaining = Math.max(remaining - 1, 0);
+        return long;
+      });
+    }
+    case "rsi": {
+      const values = rsi(closes, rule.period);
+      let long = false;
+      return values.map((value) => {
+        if (value !== null && value < rule.oversold) long = true;
+        else if (value !== null && value > rule.overbought) long = false;
+        return long;
+      });
+    }
+    case "macd": {
+      const result = macd(closes);
+      return result.macd.map((line, i) => {
+        const signal = result.signal[i];
+        return line !== null && signal !== null && line > signal;
+      });
+    }
+  }
+};
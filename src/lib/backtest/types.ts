@@ -0,0 +1,86 @@
+import type { Candle } from "@/lib/api/schemas";
+
+// A past prediction replayed as a signal on the first bar on or after the
+// time it was made.
+export interface PredictionSignal {
+  date: string;
+  direction: "UP" | "DOWN";
+  probabilityUp: number;
+}
+
+export type SignalRule =
+  // Long for `holdBars` after an UP call with probability_up above the
+  // threshold; a DOWN call closes the position early.
+  | { kind: "prediction"; minProbability: number; holdBars: number }
+  // Long when RSI drops below `oversold`, flat again above `overbought`.
+  | { kind: "rsi"; period: number; oversold: number; overbought: number }
+  // Long while the MACD line is above its signal line.
+  | { kind: "macd" };
+
+export type SignalRuleKind = SignalRule["kind"];
+
+export interface BacktestConfig {
+  rule: SignalRule;
+  initialCapital: number;
+  // Both in basis points of the traded notional, charged on every fill.
+  feeBps: number;
+  slippageBps: number;
+  // Share of current equity committed to each new position (0-1].
+  positionFraction: number;
+  // Bars per year, used to annualize the Sharpe ratio.
+  periodsPerYear: number;
+}
+
+export interface BacktestRequest {
+  candles: Candle[];
+  signals: PredictionSignal[];
+  config: BacktestConfig;
+}
+
+export interface Trade {
+  entryDate: string;
+  exitDate: string;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  pnl: number;
+  returnPct: number;
+  // Still open on the last bar and marked at its close.
+  open: boolean;
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  drawdown: number;
+  inPosition: boolean;
+}
+
+export interface BacktestMetrics {
+  finalEquity: number;
+  totalReturn: number;
+  buyAndHoldReturn: number;
+  maxDrawdown: number;
+  sharpe: number | null;
+  winRate: number | null;
+  tradeCount: number;
+  totalFees: number;
+  exposure: number;
+}
+
+export interface BacktestResult {
+  equity: EquityPoint[];
+  trades: Trade[];
+  metrics: BacktestMetrics;
+}
+
+// Messages exchanged with backtest.worker.ts; `id` pairs a reply with its run.
+export interface BacktestWorkerRequest {
+  id: number;
+  request: BacktestRequest;
+}
+
+export type BacktestWorkerResponse =
+  | { id: number; result: BacktestResult }
+  | { id: number; error: string };
@@ -0,0 +1,43 @@
+import type { PredictionData } from "@/lib/api";
+
+export type BatchStatus = "queued" | "running" | "done" | "error";
+
+export interface BatchEntry {
+  symbol: string;
+  status: BatchStatus;
+  prediction?: PredictionData;
+  error?: string;
+  attempts: number;
+}
+
+// Runs `task` over every item with at most `limit` calls in flight. Each task
+// reports its own outcome, so one failure does not stop the others.
+export const runWithConcurrency = async <T>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+};
+
+// Fractional change from the current price to the last forecast step.
+export const expectedMove = (prediction: PredictionData): number | null => {
+  const last = prediction.forecast[prediction.forecast.length - 1];
+  return last && prediction.current_price
+    ? (last.predicted_price - prediction.current_price) / prediction.current_price
+    : null;
+};
+
+// Probability the model assigns to the direction it called.
+export const callProbability = (prediction: PredictionData): number =>
+  prediction.prediction === "UP"
+    ? prediction.probability_up
+    : prediction.probability_down;
@@ -0,0 +1,135 @@
+import type { ForecastPoint, PredictionData, TechnicalIndicators } from "@/lib/api";
+
+// When two predictions for the same asset count as disagreeing. Directions
+// and indicator signals must match exactly; numbers may drift this far.
+export const DISAGREEMENT_THRESHOLDS = {
+  // Absolute difference in probability_up / accuracy (0.1 = 10 points).
+  probability: 0.1,
+  accuracy: 0.1,
+  // Relative difference in the current price (0.01 = 1%).
+  price: 0.01,
+};
+
+export type ComparisonValue = string | number | null;
+
+export interface ComparisonRow {
+  label: string;
+  left: ComparisonValue;
+  right: ComparisonValue;
+  format?: "price" | "percent" | "number";
+  disagree: boolean;
+}
+
+export interface ForecastComparison {
+  step: number;
+  left: ForecastPoint | null;
+  right: ForecastPoint | null;
+  directionDisagrees: boolean;
+  // The two prediction intervals do not overlap at all.
+  intervalsDisjoint: boolean;
+}
+
+const relativeDifference = (a: number, b: number): number =>
+  Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b), Number.EPSILON);
+
+export const compareSummary = (
+  left: PredictionData,
+  right: PredictionData
+): ComparisonRow[] => [
+  {
+    label: "Direction",
+    left: left.prediction,
+    right: right.prediction,
+    disagree: left.prediction !== right.prediction,
+  },
+  {
+    label: "Probability up",
+    left: left.probability_up,
+    right: right.probability_up,
+    format: "percent",
+    disagree:
+      Math.abs(left.probability_up - right.probability_up) >=
+      DISAGREEMENT_THRESHOLDS.probability,
+  },
+  {
+    label: "Current price",
+    left: left.current_price,
+    right: right.current_price,
+    format: "price",
+    disagree:
+      relativeDifference(left.current_price, right.current_price) >=
+      DISAGREEMENT_THRESHOLDS.price,
+  },
+  {
+    label: "Accuracy",
+    left: left.accuracy,
+    right: right.accuracy,
+    format: "percent",
+    disagree:
+      Math.abs(left.accuracy - right.accuracy) >= DISAGREEMENT_THRESHOLDS.accuracy,
+  },
+];
+
+const SIGNAL_INDICATORS = [
+  { label: "RSI", value: "rsi", signal: "rsi_signal" },
+  { label: "MACD", value: "macd", signal: "macd_signal" },
+  { label: "Stochastic", value: "stochastic", signal: "stochastic_signal" },
+  { label: "ADX", value: "adx", signal: "trend_strength" },
+] as const;
+
+// Indicator values differ between data sources anyway; only a different
+// reading (signal) counts as a disagreement, flagged on the signal row.
+export const compareIndicators = (
+  left: TechnicalIndicators,
+  right: TechnicalIndicators
+): ComparisonRow[] => {
+  const rows = SIGNAL_INDICATORS.flatMap(
+    ({ label, value, signal }): ComparisonRow[] => {
+      const disagree =
+        left[signal].trim().toLowerCase() !== right[signal].trim().toLowerCase();
+      return [
+        { label, left: left[value], right: right[value], format: "number", disagree: false },
+        { label: `${label} signal`, left: left[signal], right: right[signal], disagree },
+      ];
+    }
+  );
+
+  // ATR and MFI only come from one backend; show them without judging.
+  for (const [label, key] of [
+    ["ATR", "atr"],
+    ["MFI", "mfi"],
+  ] as const) {
+    if (left[key] !== undefined || right[key] !== undefined) {
+      rows.push({
+        label,
+        left: left[key] ?? null,
+        right: right[key] ?? null,
+        format: "number",
+        disagree: false,
+      });
+    }
+  }
+  return rows;
+};
+
+// Steps are paired by position; the two backends may label the same step
+// with different dates.
+export const compareForecasts = (
+  left: ForecastPoint[],
+  right: ForecastPoint[]
+): ForecastComparison[] =>
+  Array.from({ length: Math.max(left.length, right.length) }, (_, index) => {
+    const a = left[index] ?? null;
+    const b = right[index] ?? null;
+    return {
+      step: index + 1,
+      left: a,
+      right: b,
+      directionDisagrees: !!a && !!b && a.direction !== b.direction,
+      intervalsDisjoint:
+        !!a &&
+        !!b &&
+        (a.prediction_interval_high < b.prediction_interval_low ||
+          b.prediction_interval_high < a.prediction_interval_low),
+    };
+  });
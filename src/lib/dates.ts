@@ -0,0 +1,216 @@
+import {
+  differenceInCalendarDays,
+  differenceInDays,
+  differenceInHours,
+  differenceInMinutes,
+  format,
+  isValid,
+  parseISO,
+} from "date-fns";
+
+// Parsing and display of every date the backends send:
+//   Alpha Vantage news     20250224T231000 (UTC)
+//   Yahoo news, history    ISO 8601 with an offset or Z
+//   candles, forecasts     2024-01-01, a calendar day with no zone
+//   market movers          2024-01-01 16:15:59 US/Eastern
+// Timestamps render in the zone picked on the settings page; calendar days
+// are shown as the same day everywhere.
+
+export type TimeZoneId = "local" | "Asia/Jakarta" | "UTC";
+
+export const TIME_ZONES: { value: TimeZoneId; label: string; abbreviation: string }[] = [
+  { value: "local", label: "Browser time zone", abbreviation: "" },
+  { value: "Asia/Jakarta", label: "WIB (UTC+7)", abbreviation: "WIB" },
+  { value: "UTC", label: "UTC", abbreviation: "UTC" },
+];
+
+export const DEFAULT_TIME_ZONE: TimeZoneId = "local";
+
+export const TIME_ZONE_CHANGE_EVENT = "time-zone-change";
+
+const STORAGE_KEY = "time-zone";
+
+export const isTimeZoneId = (value: unknown): value is TimeZoneId =>
+  TIME_ZONES.some((zone) => zone.value === value);
+
+export const loadTimeZone = (): TimeZoneId => {
+  const stored = window.localStorage.getItem(STORAGE_KEY);
+  return isTimeZoneId(stored) ? stored : DEFAULT_TIME_ZONE;
+};
+
+export const saveTimeZone = (timeZone: TimeZoneId) => {
+  window.localStorage.setItem(STORAGE_KEY, timeZone);
+  window.dispatchEvent(new Event(TIME_ZONE_CHANGE_EVENT));
+};
+
+export interface ParsedDate {
+  time: number;
+  // A calendar day with no time of day; `time` is its UTC midnight.
+  dateOnly: boolean;
+}
+
+const ALPHA_TIMESTAMP = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})?$/;
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+// "2024-01-01 16:15:59 US/Eastern": a wall-clock time and an IANA zone name.
+const NAMED_ZONE = /^(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2})?)\s+([A-Za-z_]+\/[A-Za-z_/]+)$/;
+
+const formatters = new Map<string | undefined, Intl.DateTimeFormat>();
+
+// undefined is the browser's zone.
+const zoneFormatter = (timeZone: string | undefined): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The wall-clock reading of `time` in `timeZone`, as UTC fields.
+const wallClock = (time: number, timeZone: string | undefined): number => {
+  const parts = Object.fromEntries(
+    zoneFormatter(timeZone)
+      .formatToParts(new Date(time))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// Reads a wall-clock time (given as UTC fields) as a time in `timeZone`. The
+// offset is looked up twice so times next to a DST change land right.
+const fromWallClock = (wall: number, timeZone: string | undefined): number => {
+  const guess = wall - (wallClock(wall, timeZone) - wall);
+  return wall - (wallClock(guess, timeZone) - guess);
+};
+
+const zoneName = (timeZone: TimeZoneId) => (timeZone === "local" ? undefined : timeZone);
+
+// `time` as the wall clock reads it in `timeZone` (as UTC fields), so it can
+// be floored to the zone's hour or day, and back again.
+export const toZoneWallClock = (time: number, timeZone: TimeZoneId): number =>
+  wallClock(time, zoneName(timeZone));
+
+export const fromZoneWallClock = (wall: number, timeZone: TimeZoneId): number =>
+  fromWallClock(wall, zoneName(timeZone));
+
+// The zone's date fields as a local Date, which date-fns can format.
+const zonedDate = (time: number, timeZone: TimeZoneId): Date => {
+  if (timeZone === "local") return new Date(time);
+  const wall = new Date(wallClock(time, timeZone));
+  return new Date(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds()
+  );
+};
+
+// Date-times without an offset are UTC; every backend here reports UTC.
+export const parseDate = (value: string): ParsedDate | null => {
+  const text = value.trim();
+
+  const alpha = ALPHA_TIMESTAMP.exec(text);
+  if (alpha) {
+    const [, year, month, day, hour, minute, second = "0"] = alpha;
+    return { time: Date.UTC(+year, +month - 1, +day, +hour, +minute, +second), dateOnly: false };
+  }
+
+  const day = DATE_ONLY.exec(text);
+  if (day) {
+    const time = Date.UTC(+day[1], +day[2] - 1, +day[3]);
+    return Number.isNaN(time) ? null : { time, dateOnly: true };
+  }
+
+  const named = NAMED_ZONE.exec(text);
+  if (named) {
+    const wall = parseISO(`${named[1]}Z`);
+    if (!isValid(wall)) return null;
+    try {
+      return { time: fromWallClock(wall.getTime(), named[2]), dateOnly: false };
+    } catch {
+      // Unknown zone names throw a RangeError from Intl.
+      return null;
+    }
+  }
+
+  const parsed = parseISO(HAS_OFFSET.test(text) ? text : `${text}Z`);
+  return isValid(parsed) ? { time: parsed.getTime(), dateOnly: false } : null;
+};
+
+// Milliseconds since the epoch, or null when the value is not a date.
+export const parseTimestamp = (value: string): number | null => parseDate(value)?.time ?? null;
+
+// The calendar day (YYYY-MM-DD) a value falls on in `timeZone`.
+export const dayKey = (value: string, timeZone: TimeZoneId): string | null => {
+  const parsed = parseDate(value);
+  if (!parsed) return null;
+  return parsed.dateOnly
+    ? new Date(parsed.time).toISOString().slice(0, 10)
+    : format(zonedDate(parsed.time, timeZone), "yyyy-MM-dd");
+};
+
+const zoneSuffix = (timeZone: TimeZoneId) => {
+  const abbreviation = TIME_ZONES.find((zone) => zone.value === timeZone)?.abbreviation;
+  return abbreviation ? ` ${abbreviation}` : "";
+};
+
+// "Feb 24, 2025, 23:10 WIB", or "Feb 24, 2025" for calendar days and when
+// `withTime` is false. Unparseable values come back unchanged.
+export const formatAbsolute = (
+  value: string,
+  timeZone: TimeZoneId,
+  { withTime = true }: { withTime?: boolean } = {}
+): string => {
+  const parsed = parseDate(value);
+  if (!parsed) return value;
+  if (parsed.dateOnly) return format(zonedDate(parsed.time, "UTC"), "MMM d, yyyy");
+  const date = zonedDate(parsed.time, timeZone);
+  return withTime
+    ? `${format(date, "MMM d, yyyy, HH:mm")}${zoneSuffix(timeZone)}`
+    : format(date, "MMM d, yyyy");
+};
+
+// "just now", "3h ago", "in 2d"; a week or more away falls back to the
+// absolute date. Calendar days count whole days in `timeZone`.
+export const formatRelative = (
+  value: string,
+  timeZone: TimeZoneId,
+  now = Date.now()
+): string => {
+  const parsed = parseDate(value);
+  if (!parsed) return value;
+
+  const suffix = (amount: number, unit: string) =>
+    amount < 0 ? `in ${-amount}${unit}` : `${amount}${unit} ago`;
+
+  if (parsed.dateOnly) {
+    const days = differenceInCalendarDays(
+      zonedDate(now, timeZone),
+      zonedDate(parsed.time, "UTC")
+    );
+    if (days === 0) return "today";
+    if (days === 1) return "yesterday";
+    if (days === -1) return "tomorrow";
+    return Math.abs(days) < 7 ? suffix(days, "d") : formatAbsolute(value, timeZone);
+  }
+
+  const minutes = differenceInMinutes(now, parsed.time);
+  if (Math.abs(minutes) < 1) return "just now";
+  if (Math.abs(minutes) < 60) return suffix(minutes, "m");
+  const hours = differenceInHours(now, parsed.time);
+  if (Math.abs(hours) < 24) return suffix(hours, "h");
+  const days = differenceInDays(now, parsed.time);
+  return Math.abs(days) < 7 ? suffix(days, "d") : formatAbsolute(value, timeZone, { withTime: false });
+};
@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import type { PredictionData, TechnicalIndicators } from "@/lib/api";
+import { EXPLANATION_RULES, explainPrediction } from "..";
+
+const INDICATORS: TechnicalIndicators = {
+  rsi: 50,
+  rsi_signal: "Neutral",
+  macd: 0,
+  macd_signal: "Neutral",
+  stochastic: 50,
+  stochastic_signal: "Neutral",
+  adx: 20,
+  trend_strength: "Weak",
+  atr: 1,
+  mfi: 50,
+};
+
+const forecast = (prices: number[], directions: string[] = prices.map(() => "UP")) =>
+  prices.map((price, i) => ({
+    date: `2024-01-0${i + 1}`,
+    predicted_price: price,
+    prediction_interval_low: price - 1,
+    prediction_interval_high: price + 1,
+    direction: directions[i],
+    probability: 0.7,
+  }));
+
+const prediction = (
+  overrides: Partial<PredictionData> = {},
+  indicators: Partial<TechnicalIndicators> = {}
+): PredictionData => ({
+  prediction: "UP",
+  probability_up: 0.7,
+  probability_down: 0.3,
+  current_price: 100,
+  technical_indicators: { ...INDICATORS, ...indicators },
+  accuracy: 0.7,
+  plot_base64: "",
+  forecast: forecast([100, 100, 100]),
+  ...overrides,
+});
+
+// The messages of one rule, sorted by how they relate to the call.
+const explain = (ruleId: string, data: PredictionData) => {
+  const rules = EXPLANATION_RULES.filter((rule) => rule.id === ruleId);
+  const explanation = explainPrediction(data, rules);
+  const messages = (findings: { message: string }[]) => findings.map((f) => f.message);
+  return {
+    supporting: messages(explanation.supporting),
+    contradicting: messages(explanation.contradicting),
+    context: messages(explanation.context),
+  };
+};
+
+const DOWN = { prediction: "DOWN", probability_up: 0.3, probability_down: 0.7 } as const;
+
+describe("rsi", () => {
+  it("supports an UP call when oversold", () => {
+    expect(explain("rsi", prediction({}, { rsi: 25, rsi_signal: "Oversold" }))).toEqual({
+      supporting: ["RSI at 25.0 is oversold, which often precedes a rebound."],
+      contradicting: [],
+      context: [],
+    });
+  });
+
+  it("contradicts an UP call when overbought", () => {
+    expect(
+      explain("rsi", prediction({}, { rsi: 75, rsi_signal: "Overbought" })).contradicting
+    ).toEqual(["RSI at 75.0 is overbought, which often precedes a pullback."]);
+  });
+
+  it("repeats trend labels instead of calling them oversold or overbought", () => {
+    expect(explain("rsi", prediction({}, { rsi: 60, rsi_signal: "Bullish" })).supporting).toEqual(
+      ["RSI at 60.0 reads Bullish, a bullish signal."]
+    );
+    expect(
+      explain("rsi", prediction(DOWN, { rsi: 40, rsi_signal: "Sell" })).supporting
+    ).toEqual(["RSI at 40.0 reads Sell, a bearish signal."]);
+  });
+
+  it("treats a neutral label as background", () => {
+    expect(explain("rsi", prediction()).context).toEqual(["RSI at 50.0 reads Neutral."]);
+  });
+});
+
+describe("stochastic", () => {
+  it("supports a DOWN call when overbought", () => {
+    expect(
+      explain(
+        "stochastic",
+        prediction(DOWN, { stochastic: 88, stochastic_signal: "Overbought" })
+      ).supporting
+    ).toEqual(["The stochastic oscillator at 88.0 is overbought, which often precedes a pullback."]);
+  });
+
+  it("contradicts a DOWN call on a bullish label", () => {
+    expect(
+      explain("stochastic", prediction(DOWN, { stochastic: 55, stochastic_signal: "Up" }))
+        .contradicting
+    ).toEqual(["The stochastic oscillator at 55.0 reads Up, a bullish signal."]);
+  });
+});
+
+describe("macd", () => {
+  it("supports an UP call when bullish", () => {
+    expect(
+      explain("macd", prediction({}, { macd: 1.5, macd_signal: "Bullish" })).supporting
+    ).toEqual(["MACD is bullish (1.5000): upward momentum is building."]);
+  });
+
+  it("contradicts an UP call when bearish", () => {
+    expect(
+      explain("macd", prediction({}, { macd: -0.25, macd_signal: "Bearish" })).contradicting
+    ).toEqual(["MACD is bearish (-0.2500): downward momentum is building."]);
+  });
+});
+
+describe("mfi", () => {
+  it("supports an UP call at or below the oversold line", () => {
+    expect(explain("mfi", prediction({}, { mfi: 20 })).supporting).toEqual([
+      "Money Flow Index at 20.0 shows heavy selling that may be exhausted.",
+    ]);
+  });
+
+  it("contradicts an UP call at or above the overbought line", () => {
+    expect(explain("mfi", prediction({}, { mfi: 85 })).contradicting).toEqual([
+      "Money Flow Index at 85.0 shows heavy buying that may be exhausted.",
+    ]);
+  });
+
+  it("says nothing without an MFI", () => {
+    expect(explain("mfi", prediction({}, { mfi: undefined }))).toEqual({
+      supporting: [],
+      contradicting: [],
+      context: [],
+    });
+  });
+});
+
+describe("forecast-path", () => {
+  it("supports an UP call when the path ends higher", () => {
+    expect(
+      explain("forecast-path", prediction({ forecast: forecast([101, 102, 103]) })).supporting
+    ).toEqual(["The forecast path ends 3.0% higher after 3 periods."]);
+  });
+
+  it("contradicts an UP call when the path ends lower", () => {
+    expect(
+      explain("forecast-path", prediction({ forecast: forecast([99, 98]) })).contradicting
+    ).toEqual(["The forecast path ends 2.0% lower after 2 periods."]);
+  });
+
+  it("calls a small move flat", () => {
+    expect(explain("forecast-path", prediction()).context).toEqual([
+      "The forecast path is roughly flat over the next 3 periods.",
+    ]);
+  });
+});
+
+describe("forecast-steps", () => {
+  it("supports an UP call when most steps point up", () => {
+    const steps = forecast([101, 102, 101], ["UP", "UP", "DOWN"]);
+    expect(explain("forecast-steps", prediction({ forecast: steps })).supporting).toEqual([
+      "2 of 3 forecast steps point up.",
+    ]);
+  });
+
+  it("flags a majority against the call", () => {
+    const steps = forecast([99, 98, 99], ["DOWN", "DOWN", "UP"]);
+    expect(explain("forecast-steps", prediction({ forecast: steps })).contradicting).toEqual([
+      "2 of 3 forecast steps point down, against the headline call.",
+    ]);
+  });
+
+  it("treats an even split as background", () => {
+    const steps = forecast([101, 100], ["UP", "DOWN"]);
+    expect(explain("forecast-steps", prediction({ forecast: steps })).context).toEqual([
+      "The forecast steps are split evenly between UP and DOWN.",
+    ]);
+  });
+});
+
+describe("background rules", () => {
+  it("describes trend strength", () => {
+    const strong = prediction({}, { adx: 32, trend_strength: "Strong" });
+    expect(explain("trend-strength", strong).context).toEqual([
+      "ADX at 32.0 signals a strong trend, so momentum readings carry more weight.",
+    ]);
+    expect(explain("trend-strength", prediction()).context).toEqual([
+      "ADX at 20.0 signals a weak trend; moves may be range-bound noise.",
+    ]);
+  });
+
+  it("calls out high volatility only", () => {
+    expect(explain("volatility", prediction({}, { atr: 6 })).context).toEqual([
+      "Volatility is high: the average true range is 6.0% of the price.",
+    ]);
+    expect(explain("volatility", prediction()).context).toEqual([]);
+  });
+
+  it("calls out low confidence only", () => {
+    expect(
+      explain("confidence", prediction({ probability_up: 0.52, probability_down: 0.48 })).context
+    ).toEqual(["At 52.0% the model is barely more confident than a coin flip."]);
+    expect(explain("confidence", prediction()).context).toEqual([]);
+  });
+
+  it("calls out low accuracy only", () => {
+    expect(explain("accuracy", prediction({ accuracy: 0.5 })).context).toEqual([
+      "The model's historical accuracy is only 50.0%.",
+    ]);
+    expect(explain("accuracy", prediction()).context).toEqual([]);
+  });
+});
@@ -0,0 +1,25 @@
+import type { PredictionData } from "@/lib/api";
+import { EXPLANATION_RULES } from "./rules";
+import type { Explanation, ExplanationRule, Finding } from "./types";
+
+// Runs every rule against one prediction and sorts what they found into
+// factors that back the call, factors against it, and background.
+export const explainPrediction = (
+  prediction: PredictionData,
+  rules: readonly ExplanationRule[] = EXPLANATION_RULES
+): Explanation => {
+  const call = prediction.prediction === "UP" ? 1 : -1;
+  const context = { prediction, indicators: prediction.technical_indicators, call } as const;
+
+  const findings: Finding[] = rules.flatMap((rule) => {
+    const outcome = rule.evaluate(context);
+    return outcome ? [{ ...outcome, ruleId: rule.id, factor: rule.factor }] : [];
+  });
+
+  return {
+    call: prediction.prediction,
+    supporting: findings.filter((finding) => finding.bias === call),
+    contradicting: findings.filter((finding) => finding.bias === -call),
+    context: findings.filter((finding) => finding.bias === 0),
+  };
+};
@@ -0,0 +1,3 @@
+export * from "./types";
+export { EXPLANATION_RULES, EXPLANATION_THRESHOLDS } from "./rules";
+export { explainPrediction } from "./engine";
@@ -0,0 +1,190 @@
+import { signalBias } from "@/lib/alignment";
+import { callProbability } from "@/lib/batch";
+import { formatPercent } from "@/lib/format";
+import type { ExplanationRule } from "./types";
+
+// Every number the rules compare against, in one place.
+export const EXPLANATION_THRESHOLDS = {
+  mfiOverbought: 80,
+  mfiOversold: 20,
+  // ATR as a fraction of the price above which volatility is called out.
+  highVolatility: 0.05,
+  // A forecast path that moves less than this is treated as flat.
+  flatForecast: 0.005,
+  // Probability of the call below which the model is close to a coin flip.
+  lowConfidence: 0.55,
+  lowAccuracy: 0.55,
+};
+
+const T = EXPLANATION_THRESHOLDS;
+
+const describeOscillator = (
+  name: string,
+  value: number,
+  signal: string
+): { bias: -1 | 0 | 1; message: string } => {
+  const bias = signalBias(signal);
+  const label = signal.trim().toLowerCase();
+  const reading = `${name} at ${value.toFixed(1)}`;
+  // Only oversold and overbought labels are mean-reversion calls; the rest
+  // (Bullish, Sell, Neutral, ...) are repeated as the backend sent them.
+  return {
+    bias,
+    message: label.includes("oversold")
+      ? `${reading} is oversold, which often precedes a rebound.`
+      : label.includes("overbought")
+      ? `${reading} is overbought, which often precedes a pullback.`
+      : bias === 1
+      ? `${reading} reads ${signal}, a bullish signal.`
+      : bias === -1
+      ? `${reading} reads ${signal}, a bearish signal.`
+      : `${reading} reads ${signal}.`,
+  };
+};
+
+export const EXPLANATION_RULES: ExplanationRule[] = [
+  {
+    id: "rsi",
+    factor: "RSI",
+    evaluate: ({ indicators }) =>
+      describeOscillator("RSI", indicators.rsi, indicators.rsi_signal),
+  },
+  {
+    id: "stochastic",
+    factor: "Stochastic",
+    evaluate: ({ indicators }) =>
+      describeOscillator(
+        "The stochastic oscillator",
+        indicators.stochastic,
+        indicators.stochastic_signal
+      ),
+  },
+  {
+    id: "macd",
+    factor: "MACD",
+    evaluate: ({ indicators }) => {
+      const bias = signalBias(indicators.macd_signal);
+      return {
+        bias,
+        message:
+          bias === 1
+            ? `MACD is bullish (${indicators.macd.toFixed(4)}): upward momentum is building.`
+            : bias === -1
+            ? `MACD is bearish (${indicators.macd.toFixed(4)}): downward momentum is building.`
+            : `MACD reads ${indicators.macd_signal} (${indicators.macd.toFixed(4)}).`,
+      };
+    },
+  },
+  {
+    id: "mfi",
+    factor: "MFI",
+    evaluate: ({ indicators }) => {
+      if (indicators.mfi === undefined) return null;
+      const mfi = indicators.mfi;
+      if (mfi >= T.mfiOverbought) {
+        return {
+          bias: -1,
+          message: `Money Flow Index at ${mfi.toFixed(1)} shows heavy buying that may be exhausted.`,
+        };
+      }
+      if (mfi <= T.mfiOversold) {
+        return {
+          bias: 1,
+          message: `Money Flow Index at ${mfi.toFixed(1)} shows heavy selling that may be exhausted.`,
+        };
+      }
+      return { bias: 0, message: `Money Flow Index at ${mfi.toFixed(1)} is neutral.` };
+    },
+  },
+  {
+    id: "forecast-path",
+    factor: "Forecast",
+    evaluate: ({ prediction }) => {
+      const last = prediction.forecast[prediction.forecast.length - 1];
+      if (!last || !prediction.current_price) return null;
+      const change = (last.predicted_price - prediction.current_price) / prediction.current_price;
+      const steps = prediction.forecast.length;
+      if (Math.abs(change) < T.flatForecast) {
+        return {
+          bias: 0,
+          message: `The forecast path is roughly flat over the next ${steps} periods.`,
+        };
+      }
+      return {
+        bias: change > 0 ? 1 : -1,
+        message: `The forecast path ends ${formatPercent(Math.abs(change))} ${
+          change > 0 ? "higher" : "lower"
+        } after ${steps} periods.`,
+      };
+    },
+  },
+  {
+    id: "forecast-steps",
+    factor: "Forecast",
+    evaluate: ({ prediction, call }) => {
+      const steps = prediction.forecast;
+      if (!steps.length) return null;
+      const up = steps.filter((step) => step.direction === "UP").length;
+      const down = steps.length - up;
+      if (up === down) {
+        return { bias: 0, message: `The forecast steps are split evenly between UP and DOWN.` };
+      }
+      const majority = up > down ? 1 : -1;
+      return {
+        bias: majority,
+        message: `${Math.max(up, down)} of ${steps.length} forecast steps point ${
+          majority === 1 ? "up" : "down"
+        }${majority === call ? "" : ", against the headline call"}.`,
+      };
+    },
+  },
+  {
+    id: "trend-strength",
+    factor: "ADX",
+    evaluate: ({ indicators }) => ({
+      bias: 0,
+      message:
+        indicators.trend_strength.toLowerCase().includes("strong")
+          ? `ADX at ${indicators.adx.toFixed(1)} signals a strong trend, so momentum readings carry more weight.`
+          : `ADX at ${indicators.adx.toFixed(1)} signals a ${indicators.trend_strength.toLowerCase()} trend; moves may be range-bound noise.`,
+    }),
+  },
+  {
+    id: "volatility",
+    factor: "ATR",
+    evaluate: ({ indicators, prediction }) => {
+      if (indicators.atr === undefined || !prediction.current_price) return null;
+      const ratio = indicators.atr / prediction.current_price;
+      return ratio >= T.highVolatility
+        ? {
+            bias: 0,
+            message: `Volatility is high: the average true range is ${formatPercent(ratio)} of the price.`,
+          }
+        : null;
+    },
+  },
+  {
+    id: "confidence",
+    factor: "Confidence",
+    evaluate: ({ prediction }) => {
+      const probability = callProbability(prediction);
+      return probability < T.lowConfidence
+        ? {
+            bias: 0,
+            message: `At ${formatPercent(probability)} the model is barely more confident than a coin flip.`,
+          }
+        : null;
+    },
+  },
+  {
+    id: "accuracy",
+    factor: "Accuracy",
+    evaluate: ({ prediction }) =>
+      prediction.accuracy < T.lowAccuracy
+        ? {
+            bias: 0,
+            message: `The model's historical accuracy is only ${formatPercent(prediction.accuracy)}.`,
+          }
+        : null,
+  },
+];
@@ -0,0 +1,35 @@
+import type { PredictionData, TechnicalIndicators } from "@/lib/api";
+import type { Bias } from "@/lib/alignment";
+
+export interface ExplanationContext {
+  prediction: PredictionData;
+  indicators: TechnicalIndicators;
+  // +1 when the call is UP, -1 when it is DOWN.
+  call: Exclude<Bias, 0>;
+}
+
+// What one rule concluded. `bias` is the market direction the factor points
+// to; 0 means it is background (volatility, trend strength, confidence).
+export interface RuleOutcome {
+  bias: Bias;
+  message: string;
+}
+
+export interface ExplanationRule {
+  id: string;
+  factor: string;
+  // Returns null when the rule has nothing to say, e.g. a missing indicator.
+  evaluate: (context: ExplanationContext) => RuleOutcome | null;
+}
+
+export interface Finding extends RuleOutcome {
+  ruleId: string;
+  factor: string;
+}
+
+export interface Explanation {
+  call: PredictionData["prediction"];
+  supporting: Finding[];
+  contradicting: Finding[];
+  context: Finding[];
+}
@@ -0,0 +1,145 @@
+import type { MarketMovers, PredictionData, TickerInfo } from "@/lib/api";
+import { getActiveEndpoint } from "@/lib/api";
+import type { AnalysisParams, DataProvider } from "@/lib/providers";
+
+export type ExportValue = string | number | boolean | null;
+
+export interface ExportTable {
+  name: string;
+  columns: string[];
+  rows: ExportValue[][];
+}
+
+export interface ExportMetadata {
+  exported_at: string;
+  provider: string;
+  backend: string;
+  endpoint: string;
+  // The /predict body with anything secret removed; null for GET endpoints.
+  request: Record<string, string> | null;
+}
+
+export interface ExportDataset {
+  // File name without extension.
+  name: string;
+  metadata: ExportMetadata;
+  tables: ExportTable[];
+}
+
+// Request fields never written to a file, whatever the backend adds later.
+const SECRET_FIELD = /key|token|secret|password/i;
+
+export const stripSecrets = (request: object): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(request)
+      .filter(([field]) => !SECRET_FIELD.test(field))
+      .map(([field, value]) => [field, String(value)])
+  );
+
+const exportMetadata = (
+  provider: DataProvider,
+  params: AnalysisParams | null
+): ExportMetadata => {
+  const endpoint = getActiveEndpoint();
+  return {
+    exported_at: new Date().toISOString(),
+    provider: provider.label,
+    backend: provider.backend,
+    endpoint: endpoint.origin ? `${endpoint.label} (${endpoint.origin})` : endpoint.label,
+    request: params ? stripSecrets(provider.toFormData(params)) : null,
+  };
+};
+
+// File-name friendly timestamp, e.g. 2024-05-01T09-30-00Z.
+const fileStamp = (iso: string): string => iso.replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+
+export const predictionDataset = (
+  provider: DataProvider,
+  params: AnalysisParams,
+  prediction: PredictionData
+): ExportDataset => {
+  const metadata = exportMetadata(provider, params);
+  return {
+    name: `${params.symbol}-${params.timeframe}-prediction-${fileStamp(metadata.exported_at)}`,
+    metadata,
+    tables: [
+      {
+        name: "Summary",
+        columns: ["field", "value"],
+        rows: [
+          ["prediction", prediction.prediction],
+          ["probability_up", prediction.probability_up],
+          ["probability_down", prediction.probability_down],
+          ["accuracy", prediction.accuracy],
+          ["current_price", prediction.current_price],
+        ],
+      },
+      {
+        name: "Forecast",
+        columns: [
+          "date",
+          "predicted_price",
+          "prediction_interval_low",
+          "prediction_interval_high",
+          "direction",
+          "probability",
+        ],
+        rows: prediction.forecast.map((point) => [
+          point.date,
+          point.predicted_price,
+          point.prediction_interval_low,
+          point.prediction_interval_high,
+          point.direction,
+          point.probability,
+        ]),
+      },
+      {
+        name: "Indicators",
+        columns: ["indicator", "value"],
+        rows: Object.entries(prediction.technical_indicators).map(([key, value]) => [
+          key,
+          value ?? null,
+        ]),
+      },
+    ],
+  };
+};
+
+const TICKER_COLUMNS = ["ticker", "price", "change_amount", "change_percentage", "volume"];
+
+const tickerRows = (tickers: TickerInfo[]): ExportValue[][] =>
+  tickers.map((ticker) => [
+    ticker.ticker,
+    ticker.price,
+    ticker.change_amount,
+    ticker.change_percentage,
+    ticker.volume,
+  ]);
+
+export const marketDataset = (
+  provider: DataProvider,
+  marketMovers: MarketMovers
+): ExportDataset => {
+  const metadata = exportMetadata(provider, null);
+  return {
+    name: `${provider.id}-market-movers-${fileStamp(metadata.exported_at)}`,
+    metadata,
+    tables: [
+      {
+        name: "Top Gainers",
+        columns: TICKER_COLUMNS,
+        rows: tickerRows(marketMovers.top_gainers),
+      },
+      {
+        name: "Top Losers",
+        columns: TICKER_COLUMNS,
+        rows: tickerRows(marketMovers.top_losers),
+      },
+      {
+        name: "Most Active",
+        columns: TICKER_COLUMNS,
+        rows: tickerRows(marketMovers.most_actively_traded),
+      },
+    ],
+  };
+};
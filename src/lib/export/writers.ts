@@ -0,0 +1,105 @@
+import type { ExportDataset, ExportTable, ExportValue } from "./dataset";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "xlsx", label: "Excel (XLSX)" },
+];
+
+const csvCell = (value: ExportValue): string => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvLines = (rows: ExportValue[][]): string[] =>
+  rows.map((row) => row.map(csvCell).join(","));
+
+const metadataRows = ({ metadata }: ExportDataset): ExportValue[][] => [
+  ["exported_at", metadata.exported_at],
+  ["provider", metadata.provider],
+  ["backend", metadata.backend],
+  ["endpoint", metadata.endpoint],
+  ...Object.entries(metadata.request ?? {}).map(([field, value]) => [
+    `request.${field}`,
+    value,
+  ]),
+];
+
+// One CSV holds every table: the metadata first, then each table under its
+// name, separated by blank lines.
+export const toCsv = (dataset: ExportDataset): string =>
+  [
+    ...csvLines([["Metadata"], ...metadataRows(dataset)]),
+    ...dataset.tables.flatMap((table) => [
+      "",
+      ...csvLines([[table.name], table.columns, ...table.rows]),
+    ]),
+  ].join("\r\n") + "\r\n";
+
+const tableObjects = (table: ExportTable): Record<string, ExportValue>[] =>
+  table.rows.map((row) =>
+    Object.fromEntries(table.columns.map((column, i) => [column, row[i]]))
+  );
+
+export const toJson = (dataset: ExportDataset): string =>
+  JSON.stringify(
+    {
+      metadata: dataset.metadata,
+      ...Object.fromEntries(
+        dataset.tables.map((table) => [
+          table.name.toLowerCase().replace(/\s+/g, "_"),
+          tableObjects(table),
+        ])
+      ),
+    },
+    null,
+    2
+  );
+
+// One sheet per table plus a Metadata sheet. The writer is loaded on demand
+// so it stays out of the main bundle.
+export const toXlsx = async (dataset: ExportDataset): Promise<Blob> => {
+  const { default: writeXlsxFile } = await import("write-excel-file/browser");
+  const header = (columns: string[]) =>
+    columns.map((column) => ({ value: column, fontWeight: "bold" as const }));
+  return writeXlsxFile([
+    {
+      sheet: "Metadata",
+      data: [header(["field", "value"]), ...metadataRows(dataset)],
+    },
+    ...dataset.tables.map((table) => ({
+      sheet: table.name,
+      data: [header(table.columns), ...table.rows],
+    })),
+  ]).toBlob();
+};
+
+const MIME_TYPES: Record<Exclude<ExportFormat, "xlsx">, string> = {
+  csv: "text/csv;charset=utf-8",
+  json: "application/json",
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking in the same tick can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportDataset = async (
+  dataset: ExportDataset,
+  format: ExportFormat
+): Promise<void> => {
+  const blob =
+    format === "xlsx"
+      ? await toXlsx(dataset)
+      : new Blob([format === "csv" ? toCsv(dataset) : toJson(dataset)], {
+          type: MIME_TYPES[format],
+        });
+  downloadBlob(blob, `${dataset.name}.${format}`);
+};
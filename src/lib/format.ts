@@ -0,0 +1,19 @@
+// Shared number formatting for prices, volumes and probabilities.
+
+export const formatPrice = (value: number): string =>
+  value.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: Math.abs(value) < 1 ? 6 : 2,
+  });
+
+export const formatVolume = (value: number): string =>
+  value >= 1e9
+    ? `${(value / 1e9).toFixed(1)}B`
+    : value >= 1e6
+    ? `${(value / 1e6).toFixed(1)}M`
+    : value >= 1e3
+    ? `${(value / 1e3).toFixed(1)}K`
+    : value.toFixed(0);
+
+export const formatPercent = (ratio: number, digits = 1): string =>
+  `${(ratio * 100).toFixed(digits)}%`;
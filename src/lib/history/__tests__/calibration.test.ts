@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  CalibrationSample,
+  PredictionRecord,
+  calibrate,
+  calibrateBySeries,
+  collectSamples,
+  seriesKey,
+} from "..";
+
+const PARAMS = { symbol: "BTC", timeframe: "daily", period: "180" };
+
+const record = (
+  probabilityUp: number,
+  steps: { date: string; direction: string; probability: number }[],
+  symbol = "BTC"
+): PredictionRecord => ({
+  id: 1,
+  createdAt: "2025-01-01T12:00:00.000Z",
+  providerId: "alpha-vantage",
+  params: { ...PARAMS, symbol },
+  prediction: {
+    prediction: probabilityUp >= 0.5 ? "UP" : "DOWN",
+    probability_up: probabilityUp,
+    probability_down: 1 - probabilityUp,
+    current_price: 100,
+    technical_indicators: {
+      rsi: 50,
+      rsi_signal: "Neutral",
+      macd: 0,
+      macd_signal: "Neutral",
+      stochastic: 50,
+      stochastic_signal: "Neutral",
+      adx: 20,
+      trend_strength: "Weak",
+    },
+    accuracy: 0.7,
+    forecast: steps.map((step) => ({
+      ...step,
+      predicted_price: 100,
+      prediction_interval_low: 90,
+      prediction_interval_high: 110,
+    })),
+  },
+});
+
+const sample = (probability: number, outcome: 0 | 1, symbol = "BTC"): CalibrationSample => ({
+  probability,
+  outcome,
+  providerId: "alpha-vantage",
+  symbol,
+  timeframe: "daily",
+});
+
+describe("calibrate", () => {
+  it("reports nothing without samples", () => {
+    const report = calibrate([]);
+    expect(report.count).toBe(0);
+    expect(report.brierScore).toBeNull();
+    expect(report.logLoss).toBeNull();
+    expect(report.bins).toHaveLength(10);
+    expect(report.bins.every((bin) => bin.count === 0)).toBe(true);
+  });
+
+  it("computes Brier score, log loss and the base-rate reference", () => {
+    const report = calibrate([sample(0.8, 1), sample(0.3, 0), sample(0.6, 0), sample(0.9, 1)]);
+    // (0.2² + 0.3² + 0.6² + 0.1²) / 4
+    expect(report.brierScore).toBeCloseTo(0.125, 10);
+    expect(report.logLoss).toBeCloseTo(
+      -(Math.log(0.8) + Math.log(0.7) + Math.log(0.4) + Math.log(0.9)) / 4,
+      10
+    );
+    expect(report.baseRate).toBe(0.5);
+    expect(report.referenceBrierScore).toBe(0.25);
+  });
+
+  it("bins probabilities into reliability buckets", () => {
+    const report = calibrate([sample(0.62, 1), sample(0.68, 0), sample(0.66, 1), sample(0.05, 0)]);
+    const bin = report.bins[6];
+    expect([bin.lower, bin.upper]).toEqual([0.6, 0.7]);
+    expect(bin.count).toBe(3);
+    expect(bin.meanProbability).toBeCloseTo(0.65333, 4);
+    expect(bin.observedFrequency).toBeCloseTo(2 / 3, 10);
+    expect(report.bins[0].count).toBe(1);
+    expect(report.bins[5].meanProbability).toBeNull();
+  });
+
+  it("keeps a probability of 1 in the top bin and log loss finite", () => {
+    const report = calibrate([sample(1, 0)]);
+    expect(report.bins[9].count).toBe(1);
+    expect(report.brierScore).toBe(1);
+    expect(Number.isFinite(report.logLoss)).toBe(true);
+  });
+});
+
+describe("collectSamples", () => {
+  const steps = [
+    { date: "2025-01-02", direction: "UP", probability: 0.7 },
+    { date: "2025-01-03", direction: "DOWN", probability: 0.8 },
+  ];
+  const prices = new Map([
+    [seriesKey("alpha-vantage", PARAMS), { "2025-01-02": 105, "2025-01-03": 107 }],
+  ]);
+
+  it("judges the headline probability on the first step", () => {
+    expect(collectSamples([record(0.6, steps)], prices, "prediction")).toEqual([
+      sample(0.6, 1),
+    ]);
+  });
+
+  it("turns each step into a probability of UP", () => {
+    // The DOWN step at 0.8 is a 0.2 chance of UP, and the price went up.
+    const samples = collectSamples([record(0.6, steps)], prices, "forecast");
+    expect(samples.map((entry) => entry.outcome)).toEqual([1, 1]);
+    expect(samples[0].probability).toBeCloseTo(0.7, 10);
+    expect(samples[1].probability).toBeCloseTo(0.2, 10);
+  });
+
+  it("skips runs without a close or with a flat first step", () => {
+    const flat = new Map([[seriesKey("alpha-vantage", PARAMS), { "2025-01-02": 100 }]]);
+    expect(collectSamples([record(0.6, steps)], new Map(), "prediction")).toEqual([]);
+    expect(collectSamples([record(0.6, steps)], flat, "prediction")).toEqual([]);
+  });
+});
+
+describe("calibrateBySeries", () => {
+  it("groups samples by series, largest first", () => {
+    const series = calibrateBySeries([sample(0.6, 1, "ETH"), sample(0.7, 1), sample(0.4, 0)]);
+    expect(series.map((entry) => [entry.symbol, entry.count])).toEqual([
+      ["BTC", 2],
+      ["ETH", 1],
+    ]);
+    expect(series[0].key).toBe("alpha-vantage:BTC:daily");
+  });
+});
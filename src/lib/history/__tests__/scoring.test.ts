@@ -0,0 +1,110 @@
+import { describe, expect, it } from "vitest";
+import { PredictionRecord, scoreHistory, scorePrediction } from "..";
+
+// Three daily steps from 100: UP to 102 [99, 105], DOWN to 101 [98, 104],
+// UP to 103 [100, 106].
+const record: PredictionRecord = {
+  id: 1,
+  createdAt: "2025-01-01T12:00:00.000Z",
+  providerId: "alpha-vantage",
+  params: { symbol: "BTC", timeframe: "daily", period: "180" },
+  prediction: {
+    prediction: "UP",
+    probability_up: 0.6,
+    probability_down: 0.4,
+    current_price: 100,
+    technical_indicators: {
+      rsi: 50,
+      rsi_signal: "Neutral",
+      macd: 0,
+      macd_signal: "Neutral",
+      stochastic: 50,
+      stochastic_signal: "Neutral",
+      adx: 20,
+      trend_strength: "Weak",
+    },
+    accuracy: 0.7,
+    forecast: [
+      { date: "2025-01-02", predicted_price: 102, low: 99, high: 105, direction: "UP" },
+      { date: "2025-01-03", predicted_price: 101, low: 98, high: 104, direction: "DOWN" },
+      { date: "2025-01-04", predicted_price: 103, low: 100, high: 106, direction: "UP" },
+    ].map(({ low, high, ...point }) => ({
+      ...point,
+      prediction_interval_low: low,
+      prediction_interval_high: high,
+      probability: 0.6,
+    })),
+  },
+};
+
+describe("scorePrediction", () => {
+  it("leaves every step pending without closes", () => {
+    const score = scorePrediction(record, undefined);
+    expect(score.scored).toBe(0);
+    expect(score.pending).toBe(3);
+    expect(score.directionHitRate).toBeNull();
+    expect(score.meanAbsoluteError).toBeNull();
+    expect(score.intervalCoverage).toBeNull();
+  });
+
+  it("judges each step's direction against the previous close", () => {
+    // 104 is up from 100 (hit), 103 is down from 104 (hit), 99 is down from
+    // 103 against an UP step (miss).
+    const score = scorePrediction(record, {
+      "2025-01-02": 104,
+      "2025-01-03": 103,
+      "2025-01-04": 99,
+    });
+    expect(score.steps.map((step) => step.reference)).toEqual([100, 104, 103]);
+    expect(score.steps.map((step) => step.directionHit)).toEqual([true, true, false]);
+    expect(score.directionHitRate).toBeCloseTo(2 / 3, 10);
+    // Errors of 2, 2 and 4.
+    expect(score.meanAbsoluteError).toBeCloseTo(8 / 3, 10);
+    expect(score.meanAbsolutePercentError).toBeCloseTo((2 / 104 + 2 / 103 + 4 / 99) / 3, 10);
+    // 99 is below the last step's [100, 106] interval.
+    expect(score.steps.map((step) => step.withinInterval)).toEqual([true, true, false]);
+    expect(score.intervalCoverage).toBeCloseTo(2 / 3, 10);
+  });
+
+  it("counts steps with a missing previous close or no move as no call", () => {
+    const score = scorePrediction(record, { "2025-01-02": 100, "2025-01-04": 104 });
+    expect(score.scored).toBe(2);
+    expect(score.pending).toBe(1);
+    // Flat on step 1; step 3 has no close for step 2 to compare with.
+    expect(score.steps.map((step) => step.directionHit)).toEqual([null, null, null]);
+    expect(score.directionHitRate).toBeNull();
+    expect(score.intervalCoverage).toBe(1);
+  });
+
+  it("matches closes by day when the forecast carries a time", () => {
+    const timed = {
+      ...record,
+      prediction: {
+        ...record.prediction,
+        forecast: [{ ...record.prediction.forecast[0], date: "2025-01-02T00:00:00" }],
+      },
+    };
+    expect(scorePrediction(timed, { "2025-01-02": 101 }).scored).toBe(1);
+  });
+});
+
+describe("scoreHistory", () => {
+  it("pools steps so longer forecasts weigh more", () => {
+    const full = scorePrediction(record, {
+      "2025-01-02": 104,
+      "2025-01-03": 103,
+      "2025-01-04": 99,
+    });
+    const short = {
+      ...record,
+      prediction: { ...record.prediction, forecast: record.prediction.forecast.slice(0, 1) },
+    };
+    // 98 misses both the UP call and the [99, 105] interval.
+    const single = scorePrediction(short, { "2025-01-02": 98 });
+    const pooled = scoreHistory([full, single]);
+    expect(pooled.scored).toBe(4);
+    // Averaging per prediction would give (2/3 + 0) / 2 instead.
+    expect(pooled.directionHitRate).toBeCloseTo(2 / 4, 10);
+    expect(pooled.intervalCoverage).toBeCloseTo(2 / 4, 10);
+  });
+});
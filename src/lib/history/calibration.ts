@@ -0,0 +1,165 @@
+import type { ProviderId } from "@/lib/providers";
+import { PredictionRecord, seriesKey } from "./db";
+import { scoreSteps } from "./scoring";
+
+// Which probability is being checked: the headline probability_up of a run,
+// or the per-step ForecastPoint.probability.
+export type CalibrationSource = "prediction" | "forecast";
+
+// One probability of UP next to whether the price actually went up.
+export interface CalibrationSample {
+  probability: number;
+  outcome: 0 | 1;
+  providerId: ProviderId;
+  symbol: string;
+  timeframe: string;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanProbability: number | null;
+  observedFrequency: number | null;
+}
+
+export interface CalibrationReport {
+  count: number;
+  brierScore: number | null;
+  logLoss: number | null;
+  // Brier score of always forecasting the observed base rate; a calibrated
+  // model with any skill scores below it.
+  referenceBrierScore: number | null;
+  baseRate: number | null;
+  bins: ReliabilityBin[];
+}
+
+export interface SeriesCalibration extends CalibrationReport {
+  key: string;
+  providerId: ProviderId;
+  symbol: string;
+  timeframe: string;
+}
+
+// Keeps log loss finite for a confident miss at exactly 0 or 1.
+const EPSILON = 1e-15;
+
+export const collectSamples = (
+  records: PredictionRecord[],
+  prices: Map<string, Record<string, number>>,
+  source: CalibrationSource
+): CalibrationSample[] =>
+  records.flatMap((record) => {
+    const steps = scoreSteps(
+      record,
+      prices.get(seriesKey(record.providerId, record.params))
+    );
+    const series = {
+      providerId: record.providerId,
+      symbol: record.params.symbol,
+      timeframe: record.params.timeframe,
+    };
+
+    if (source === "prediction") {
+      // The headline call is judged on the first forecast step.
+      const first = steps[0];
+      if (!first || first.realized === null || first.realized === first.reference) {
+        return [];
+      }
+      return [
+        {
+          ...series,
+          probability: record.prediction.probability_up,
+          outcome: first.realized > first.reference! ? 1 : 0,
+        },
+      ];
+    }
+
+    return steps
+      .filter((step) => step.directionHit !== null)
+      .map((step) => {
+        const up = step.point.direction === "UP";
+        const wentUp = step.directionHit === up;
+        return {
+          ...series,
+          probability: up ? step.point.probability : 1 - step.point.probability,
+          outcome: wentUp ? (1 as const) : (0 as const),
+        };
+      });
+  });
+
+export const calibrate = (
+  samples: CalibrationSample[],
+  binCount = 10
+): CalibrationReport => {
+  const bins: ReliabilityBin[] = Array.from({ length: binCount }, (_, index) => ({
+    lower: index / binCount,
+    upper: (index + 1) / binCount,
+    count: 0,
+    meanProbability: null,
+    observedFrequency: null,
+  }));
+  if (!samples.length) {
+    return {
+      count: 0,
+      brierScore: null,
+      logLoss: null,
+      referenceBrierScore: null,
+      baseRate: null,
+      bins,
+    };
+  }
+
+  const sums = bins.map(() => ({ probability: 0, outcome: 0 }));
+  let brier = 0;
+  let logLoss = 0;
+  let ups = 0;
+  for (const { probability, outcome } of samples) {
+    const index = Math.min(Math.floor(probability * binCount), binCount - 1);
+    bins[index].count++;
+    sums[index].probability += probability;
+    sums[index].outcome += outcome;
+
+    const clipped = Math.min(Math.max(probability, EPSILON), 1 - EPSILON);
+    brier += (probability - outcome) ** 2;
+    logLoss -= outcome ? Math.log(clipped) : Math.log(1 - clipped);
+    ups += outcome;
+  }
+
+  bins.forEach((bin, index) => {
+    if (bin.count) {
+      bin.meanProbability = sums[index].probability / bin.count;
+      bin.observedFrequency = sums[index].outcome / bin.count;
+    }
+  });
+
+  const baseRate = ups / samples.length;
+  return {
+    count: samples.length,
+    brierScore: brier / samples.length,
+    logLoss: logLoss / samples.length,
+    referenceBrierScore: baseRate * (1 - baseRate),
+    baseRate,
+    bins,
+  };
+};
+
+export const calibrateBySeries = (
+  samples: CalibrationSample[],
+  binCount = 10
+): SeriesCalibration[] => {
+  const groups = new Map<string, CalibrationSample[]>();
+  for (const sample of samples) {
+    const key = `${sample.providerId}:${sample.symbol}:${sample.timeframe}`;
+    groups.set(key, [...(groups.get(key) ?? []), sample]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      providerId: group[0].providerId,
+      symbol: group[0].symbol,
+      timeframe: group[0].timeframe,
+      ...calibrate(group, binCount),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
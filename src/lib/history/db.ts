@@ -0,0 +1,149 @@
+import type { Candle, PredictionData } from "@/lib/api";
+import type { AnalysisParams, ProviderId } from "@/lib/providers";
+
+// Everything the history keeps lives in the browser's IndexedDB; nothing is
+// sent back to the analysis backend.
+const DB_NAME = "prediction-history";
+const DB_VERSION = 1;
+const PREDICTIONS = "predictions";
+const PRICES = "prices";
+
+// The rendered chart is not kept: it is large and can be regenerated.
+export type StoredPrediction = Omit<PredictionData, "plot_base64" | "ohlcv">;
+
+export interface PredictionRecord {
+  id: number;
+  createdAt: string;
+  providerId: ProviderId;
+  params: AnalysisParams;
+  prediction: StoredPrediction;
+}
+
+// Closes observed for one series, keyed by day (YYYY-MM-DD). Later runs fill
+// in the days an earlier forecast was made for.
+export interface RealizedPrices {
+  key: string;
+  closes: Record<string, number>;
+}
+
+export const seriesKey = (providerId: ProviderId, params: AnalysisParams): string =>
+  `${providerId}:${params.symbol}:${params.timeframe}`;
+
+export const dayKey = (date: string): string => date.slice(0, 10);
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completion = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PREDICTIONS)) {
+        db.createObjectStore(PREDICTIONS, { keyPath: "id", autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(PRICES)) {
+        db.createObjectStore(PRICES, { keyPath: "key" });
+      }
+    };
+    database = promisify(request).catch((err) => {
+      database = null;
+      throw err;
+    });
+  }
+  return database;
+};
+
+const mergeCloses = async (
+  store: IDBObjectStore,
+  key: string,
+  candles: Candle[]
+): Promise<void> => {
+  const existing = (await promisify(store.get(key))) as RealizedPrices | undefined;
+  const closes = { ...existing?.closes };
+  for (const candle of candles) {
+    closes[dayKey(candle.date)] = candle.close;
+  }
+  store.put({ key, closes } satisfies RealizedPrices);
+};
+
+export const recordRealizedPrices = async (
+  providerId: ProviderId,
+  params: AnalysisParams,
+  candles: Candle[]
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PRICES, "readwrite");
+  await mergeCloses(transaction.objectStore(PRICES), seriesKey(providerId, params), candles);
+  await completion(transaction);
+};
+
+export const savePrediction = async (
+  providerId: ProviderId,
+  params: AnalysisParams,
+  prediction: PredictionData
+): Promise<PredictionRecord> => {
+  const { plot_base64, ohlcv, ...stored } = prediction;
+  const record: Omit<PredictionRecord, "id"> = {
+    createdAt: new Date().toISOString(),
+    providerId,
+    params,
+    prediction: stored,
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction([PREDICTIONS, PRICES], "readwrite");
+  const id = await promisify(transaction.objectStore(PREDICTIONS).add(record));
+  if (ohlcv?.length) {
+    await mergeCloses(
+      transaction.objectStore(PRICES),
+      seriesKey(providerId, params),
+      ohlcv
+    );
+  }
+  await completion(transaction);
+  return { ...record, id: id as number };
+};
+
+export const listPredictions = async (): Promise<PredictionRecord[]> => {
+  const db = await openDatabase();
+  const records = (await promisify(
+    db.transaction(PREDICTIONS).objectStore(PREDICTIONS).getAll()
+  )) as PredictionRecord[];
+  return records.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const loadRealizedPrices = async (): Promise<Map<string, Record<string, number>>> => {
+  const db = await openDatabase();
+  const rows = (await promisify(
+    db.transaction(PRICES).objectStore(PRICES).getAll()
+  )) as RealizedPrices[];
+  return new Map(rows.map((row) => [row.key, row.closes]));
+};
+
+export const deletePrediction = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PREDICTIONS, "readwrite");
+  transaction.objectStore(PREDICTIONS).delete(id);
+  await completion(transaction);
+};
+
+export const clearHistory = async (): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PREDICTIONS, PRICES], "readwrite");
+  transaction.objectStore(PREDICTIONS).clear();
+  transaction.objectStore(PRICES).clear();
+  await completion(transaction);
+};
@@ -0,0 +1,3 @@
+export * from "./db";
+export * from "./scoring";
+export * from "./calibration";
@@ -0,0 +1,84 @@
+import type { ForecastPoint } from "@/lib/api";
+import { PredictionRecord, dayKey } from "./db";
+
+// One forecast step next to what the market actually did on that day.
+export interface StepOutcome {
+  step: number;
+  point: ForecastPoint;
+  realized: number | null;
+  // Realized close the step's direction is judged against: the previous
+  // step's close, or the price when the prediction was made for step 1.
+  reference: number | null;
+  directionHit: boolean | null;
+  absoluteError: number | null;
+  withinInterval: boolean | null;
+}
+
+export interface PredictionScore {
+  steps: StepOutcome[];
+  scored: number;
+  pending: number;
+  directionHitRate: number | null;
+  meanAbsoluteError: number | null;
+  meanAbsolutePercentError: number | null;
+  intervalCoverage: number | null;
+}
+
+const mean = (values: number[]): number | null =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const ratio = (flags: (boolean | null)[]): number | null =>
+  mean(flags.filter((flag): flag is boolean => flag !== null).map(Number));
+
+export const scoreSteps = (
+  record: PredictionRecord,
+  closes: Record<string, number> | undefined
+): StepOutcome[] => {
+  let reference: number | null = record.prediction.current_price;
+  return record.prediction.forecast.map((point, index) => {
+    const realized = closes?.[dayKey(point.date)] ?? null;
+    const outcome: StepOutcome = {
+      step: index + 1,
+      point,
+      realized,
+      reference,
+      directionHit:
+        realized !== null && reference !== null && realized !== reference
+          ? (realized > reference) === (point.direction === "UP")
+          : null,
+      absoluteError:
+        realized !== null ? Math.abs(point.predicted_price - realized) : null,
+      withinInterval:
+        realized !== null
+          ? realized >= point.prediction_interval_low &&
+            realized <= point.prediction_interval_high
+          : null,
+    };
+    reference = realized;
+    return outcome;
+  });
+};
+
+const summarize = (steps: StepOutcome[]): PredictionScore => {
+  const realized = steps.filter((step) => step.realized !== null);
+  return {
+    steps,
+    scored: realized.length,
+    pending: steps.length - realized.length,
+    directionHitRate: ratio(steps.map((step) => step.directionHit)),
+    meanAbsoluteError: mean(realized.map((step) => step.absoluteError!)),
+    meanAbsolutePercentError: mean(
+      realized.map((step) => step.absoluteError! / step.realized!)
+    ),
+    intervalCoverage: ratio(steps.map((step) => step.withinInterval)),
+  };
+};
+
+export const scorePrediction = (
+  record: PredictionRecord,
+  closes: Record<string, number> | undefined
+): PredictionScore => summarize(scoreSteps(record, closes));
+
+// Pools every scored step so long forecasts weigh more than short ones.
+export const scoreHistory = (scores: PredictionScore[]): PredictionScore =>
+  summarize(scores.flatMap((score) => score.steps));
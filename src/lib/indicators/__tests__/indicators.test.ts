@@ -0,0 +1,163 @@
+import { describe, expect, it } from "vitest";
+import {
+  Series,
+  adx,
+  atr,
+  bollinger,
+  ema,
+  macd,
+  mfi,
+  rsi,
+  sma,
+  stochastic,
+  trueRange,
+} from "..";
+import {
+  OHLCV_BARS,
+  STOCKCHARTS_EMA_10,
+  STOCKCHARTS_MA_CLOSES,
+  STOCKCHARTS_RSI_14,
+  STOCKCHARTS_RSI_CLOSES,
+  STOCKCHARTS_SMA_10,
+} from "./reference-data";
+
+const closes = OHLCV_BARS.map((bar) => bar.close);
+
+// Checks the warm-up gap and the values after it.
+const expectSeries = (
+  actual: Series,
+  warmUp: number,
+  expected: number[],
+  tolerance: number
+) => {
+  expect(actual.findIndex((value) => value !== null)).toBe(warmUp);
+  const values = actual.slice(warmUp) as number[];
+  expect(values).toHaveLength(expected.length);
+  values.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThan(tolerance));
+};
+
+// Checks the warm-up gap and the last values of a long series.
+const expectTail = (actual: Series, warmUp: number, expected: number[]) => {
+  expect(actual.findIndex((value) => value !== null)).toBe(warmUp);
+  const tail = actual.slice(-expected.length) as number[];
+  tail.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 3));
+};
+
+describe("moving averages", () => {
+  // The published table rounds to cents.
+  it("matches the StockCharts 10-day SMA", () => {
+    expectSeries(sma(STOCKCHARTS_MA_CLOSES, 10), 9, STOCKCHARTS_SMA_10, 0.01 + 1e-9);
+  });
+
+  it("matches the StockCharts 10-day EMA seeded with the SMA", () => {
+    expectSeries(ema(STOCKCHARTS_MA_CLOSES, 10), 9, STOCKCHARTS_EMA_10, 0.01 + 1e-9);
+  });
+
+  it("starts averaging after a leading gap", () => {
+    expect(sma([null, null, 1, 2, 3], 2)).toEqual([null, null, null, 1.5, 2.5]);
+  });
+});
+
+describe("rsi", () => {
+  // StockCharts rounds the average gain and loss before dividing, which puts
+  // its table up to 0.07 above the unrounded result.
+  it("matches the StockCharts 14-day Wilder RSI", () => {
+    expectSeries(rsi(STOCKCHARTS_RSI_CLOSES, 14), 14, STOCKCHARTS_RSI_14, 0.1);
+  });
+
+  it("is 100 when prices only rise", () => {
+    expect(rsi([1, 2, 3, 4], 2).slice(2)).toEqual([100, 100]);
+  });
+});
+
+describe("macd", () => {
+  it("computes the line, signal and histogram", () => {
+    const result = macd(closes);
+    expectTail(result.macd, 25, [3.2833, 2.9832, 2.8218, 2.8171, 2.9401]);
+    expectTail(result.signal, 33, [4.7569, 4.4022, 4.0861, 3.8323, 3.6539]);
+    expectTail(result.histogram, 33, [-1.4736, -1.419, -1.2643, -1.0152, -0.7138]);
+  });
+
+  // On a straight line each EMA trails by (period - 1) / 2, so the 12/26
+  // MACD is exactly 12.5 - 5.5 = 7 and the histogram is flat.
+  it("is the difference of EMA lags on a linear trend", () => {
+    const result = macd(Array.from({ length: 40 }, (_, i) => i));
+    expect(result.macd[39]).toBeCloseTo(7, 10);
+    expect(result.signal[39]).toBeCloseTo(7, 10);
+    expect(result.histogram[39]).toBeCloseTo(0, 10);
+  });
+});
+
+describe("stochastic", () => {
+  it("computes %K and %D", () => {
+    const result = stochastic(OHLCV_BARS);
+    expectTail(result.k, 13, [11.8451, 34.1573, 49.3258, 71.0112, 92.3333]);
+    expectTail(result.d, 15, [20.8183, 23.952, 31.7761, 51.4981, 70.8901]);
+  });
+
+  it("places the close within the high-low range", () => {
+    const bars = [
+      { high: 10, low: 8, close: 9 },
+      { high: 12, low: 9, close: 11 },
+      { high: 11, low: 7, close: 10 },
+    ];
+    expect(stochastic(bars, 3, 1).k[2]).toBeCloseTo(60, 10);
+  });
+});
+
+describe("atr", () => {
+  it("takes the gap to the previous close into the true range", () => {
+    const bars = [
+      { high: 10, low: 9, close: 9.5 },
+      { high: 12, low: 11, close: 11.5 },
+      { high: 11, low: 8, close: 9 },
+    ];
+    expect(trueRange(bars)).toEqual([1, 2.5, 3.5]);
+  });
+
+  // As in Wilder and StockCharts, the first true range is the first bar's
+  // high - low and the first ATR is the mean of 14 true ranges. The
+  // technicalindicators package skips the first bar, so it differs slightly.
+  it("seeds with the mean of the first 14 true ranges", () => {
+    const series = atr(OHLCV_BARS);
+    const ranges = trueRange(OHLCV_BARS).slice(0, 14);
+    expect(series[13]).toBeCloseTo(ranges.reduce((sum, range) => sum + range, 0) / 14, 10);
+    expectTail(series, 13, [2.4209, 2.538, 2.5096, 2.5232, 2.5651]);
+  });
+});
+
+describe("adx", () => {
+  it("computes ADX, +DI and -DI", () => {
+    const result = adx(OHLCV_BARS);
+    expectTail(result.plusDI, 14, [22.7588, 21.3338, 22.4014, 26.1393, 29.9879]);
+    expectTail(result.minusDI, 14, [22.5249, 19.9393, 18.7195, 17.283, 15.7808]);
+    expectTail(result.adx, 27, [63.9653, 59.6377, 56.0174, 53.473, 51.8707]);
+  });
+});
+
+describe("mfi", () => {
+  // technicalindicators rounds MFI to two decimals.
+  it("computes the money flow index", () => {
+    const series = mfi(OHLCV_BARS);
+    expect(series.findIndex((value) => value !== null)).toBe(14);
+    [51.18, 54.8, 53.97, 51.67, 53.46].forEach((expected, i) =>
+      expect(series[35 + i]).toBeCloseTo(expected, 1)
+    );
+  });
+});
+
+describe("bollinger", () => {
+  it("uses the population standard deviation", () => {
+    const result = bollinger(closes);
+    expectTail(result.middle, 19, [119.571, 119.795, 120.051, 120.298, 120.6195]);
+    expectTail(result.upper, 19, [124.8439, 124.4998, 124.2073, 124.3081, 124.7422]);
+    expectTail(result.lower, 19, [114.2981, 115.0902, 115.8947, 116.2879, 116.4968]);
+  });
+
+  it("is two deviations wide on a known sample", () => {
+    // Mean 5 and population deviation 2 (the textbook 2, 4, 4, 4, 5, 5, 7, 9).
+    const result = bollinger([2, 4, 4, 4, 5, 5, 7, 9], 8, 2);
+    expect(result.upper[7]).toBeCloseTo(9, 10);
+    expect(result.lower[7]).toBeCloseTo(1, 10);
+  });
+});
@@ -0,0 +1,78 @@
+import type { VolumeBar } from "../types";
+
+// StockCharts "Moving Averages - Simple and Exponential" worked example:
+// 30 closes with the published 10-day SMA and EMA, rounded to cents.
+export const STOCKCHARTS_MA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29, 22.15, 22.39,
+  22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63, 23.82, 23.87, 23.65, 23.19,
+  23.1, 23.33, 22.68, 23.1, 22.4, 22.17,
+];
+
+export const STOCKCHARTS_SMA_10 = [
+  22.22, 22.21, 22.23, 22.26, 22.31, 22.42, 22.61, 22.77, 22.91, 23.08, 23.21, 23.38,
+  23.53, 23.65, 23.71, 23.69, 23.61, 23.51, 23.43, 23.28, 23.13,
+];
+
+export const STOCKCHARTS_EMA_10 = [
+  22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.8, 22.97, 23.13, 23.28, 23.34, 23.43,
+  23.51, 23.54, 23.47, 23.4, 23.39, 23.26, 23.23, 23.08, 22.92,
+];
+
+// StockCharts "Relative Strength Index (RSI)" worked example: 33 closes and
+// the published 14-day Wilder RSI from the 15th close on.
+export const STOCKCHARTS_RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03,
+  45.61, 46.28, 46.28, 46.0, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45,
+  45.78, 45.35, 44.03, 44.18, 44.22, 44.57, 43.42, 42.66, 43.13,
+];
+
+export const STOCKCHARTS_RSI_14 = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42,
+  39.99, 41.46, 41.87, 45.46, 37.3, 33.08, 37.77,
+];
+
+// 40 daily bars for the indicators without a worked example above. The
+// expected values in the tests match the independent `technicalindicators`
+// package to four decimals (ATR aside, see there).
+export const OHLCV_BARS: VolumeBar[] = [
+  { high: 100.92, low: 97.8, close: 98.08, volume: 2895 },
+  { high: 99.59, low: 97.76, close: 99.06, volume: 7768 },
+  { high: 100.69, low: 98.38, close: 100.15, volume: 6723 },
+  { high: 101.75, low: 99.78, close: 101.5, volume: 7371 },
+  { high: 102.45, low: 100.81, close: 102.39, volume: 5211 },
+  { high: 105.04, low: 102.26, close: 104.2, volume: 5617 },
+  { high: 106.78, low: 103.53, close: 106.05, volume: 6197 },
+  { high: 108.86, low: 105.66, close: 107.88, volume: 4018 },
+  { high: 109.78, low: 107.72, close: 109.42, volume: 3679 },
+  { high: 109.74, low: 108.17, close: 109.19, volume: 6016 },
+  { high: 111.25, low: 109.13, close: 110.28, volume: 3461 },
+  { high: 111.2, low: 109.82, close: 110.64, volume: 2737 },
+  { high: 112.6, low: 110.24, close: 112.54, volume: 4097 },
+  { high: 114.42, low: 111.96, close: 113.37, volume: 2490 },
+  { high: 113.69, low: 112.62, close: 113.03, volume: 4816 },
+  { high: 113.63, low: 111.67, close: 112.36, volume: 3099 },
+  { high: 114.8, low: 111.39, close: 114.28, volume: 6716 },
+  { high: 115.58, low: 113.7, close: 114.99, volume: 7201 },
+  { high: 117.56, low: 114.18, close: 117.1, volume: 3260 },
+  { high: 118.01, low: 116.71, close: 117.6, volume: 4523 },
+  { high: 120.12, low: 117.47, close: 119.08, volume: 8373 },
+  { high: 119.56, low: 116.98, close: 117.16, volume: 1701 },
+  { high: 119.84, low: 116.42, close: 119.58, volume: 2298 },
+  { high: 120.29, low: 119.31, close: 119.47, volume: 9297 },
+  { high: 122.48, low: 118.41, close: 121.4, volume: 9170 },
+  { high: 123.11, low: 121.39, close: 122.77, volume: 3235 },
+  { high: 122.77, low: 120.04, close: 120.79, volume: 3082 },
+  { high: 122.65, low: 119.96, close: 122.05, volume: 3142 },
+  { high: 124.3, low: 121.59, close: 124.01, volume: 9048 },
+  { high: 124.62, low: 122.22, close: 122.22, volume: 9217 },
+  { high: 124.12, low: 122.19, close: 122.99, volume: 9100 },
+  { high: 124.18, low: 120.86, close: 121.55, volume: 7114 },
+  { high: 121.82, low: 120.26, close: 120.51, volume: 6080 },
+  { high: 121.44, low: 117.62, close: 118.45, volume: 7427 },
+  { high: 118.58, low: 118.32, close: 118.54, volume: 9271 },
+  { high: 119.36, low: 115.84, close: 116.88, volume: 1334 },
+  { high: 119.78, low: 115.72, close: 118.76, volume: 9589 },
+  { high: 120.61, low: 118.47, close: 120.11, volume: 7549 },
+  { high: 122.53, low: 119.83, close: 122.04, volume: 4644 },
+  { high: 124.72, low: 121.61, close: 124.03, volume: 6594 },
+];
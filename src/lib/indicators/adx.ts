@@ -0,0 +1,45 @@
+import { rma } from "./moving-averages";
+import { trueRange } from "./atr";
+import type { PriceBar, Series } from "./types";
+
+export interface AdxResult {
+  adx: Series;
+  plusDI: Series;
+  minusDI: Series;
+}
+
+// Wilder's directional movement system. DI values start at index `period`,
+// ADX (a Wilder average of DX) at index `2 * period - 1`.
+export const adx = (bars: PriceBar[], period = 14): AdxResult => {
+  const plusDM: Series = [null];
+  const minusDM: Series = [null];
+  const ranges: Series = [null, ...trueRange(bars).slice(1)];
+  for (let i = 1; i < bars.length; i++) {
+    const up = bars[i].high - bars[i - 1].high;
+    const down = bars[i - 1].low - bars[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  const smoothedTR = rma(ranges, period);
+  const smoothedPlus = rma(plusDM, period);
+  const smoothedMinus = rma(minusDM, period);
+
+  const directional = (smoothedDM: Series): Series =>
+    smoothedDM.map((value, i) => {
+      const range = smoothedTR[i];
+      if (value === null || range === null) return null;
+      return range === 0 ? 0 : (100 * value) / range;
+    });
+
+  const plusDI = directional(smoothedPlus);
+  const minusDI = directional(smoothedMinus);
+  const dx: Series = plusDI.map((plus, i) => {
+    const minus = minusDI[i];
+    if (plus === null || minus === null) return null;
+    const total = plus + minus;
+    return total === 0 ? 0 : (100 * Math.abs(plus - minus)) / total;
+  });
+
+  return { adx: rma(dx, period), plusDI, minusDI };
+};
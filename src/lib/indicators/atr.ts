@@ -0,0 +1,17 @@
+import { rma } from "./moving-averages";
+import type { PriceBar, Series } from "./types";
+
+// True range; the first bar has no previous close, so it is just high - low.
+export const trueRange = (bars: PriceBar[]): number[] =>
+  bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = bars[i - 1].close;
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previousClose),
+      Math.abs(bar.low - previousClose)
+    );
+  });
+
+export const atr = (bars: PriceBar[], period = 14): Series =>
+  rma(trueRange(bars), period);
@@ -0,0 +1,33 @@
+import { sma } from "./moving-averages";
+import type { Series } from "./types";
+
+export interface BollingerResult {
+  middle: Series;
+  upper: Series;
+  lower: Series;
+}
+
+// Bands use the population standard deviation, as in Bollinger's definition.
+export const bollinger = (
+  closes: number[],
+  period = 20,
+  multiplier = 2
+): BollingerResult => {
+  const middle = sma(closes, period);
+  const deviation: Series = middle.map((mean, i) => {
+    if (mean === null) return null;
+    let sum = 0;
+    for (let j = i - period + 1; j <= i; j++) sum += (closes[j] - mean) ** 2;
+    return Math.sqrt(sum / period);
+  });
+
+  return {
+    middle,
+    upper: middle.map((mean, i) =>
+      mean === null ? null : mean + multiplier * (deviation[i] as number)
+    ),
+    lower: middle.map((mean, i) =>
+      mean === null ? null : mean - multiplier * (deviation[i] as number)
+    ),
+  };
+};
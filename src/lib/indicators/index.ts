@@ -0,0 +1,48 @@
+import type { Candle } from "@/lib/api";
+import { adx } from "./adx";
+import { atr } from "./atr";
+import { macd } from "./macd";
+import { mfi } from "./mfi";
+import { last } from "./moving-averages";
+import { rsi } from "./rsi";
+import { stochastic } from "./stochastic";
+
+export * from "./types";
+export { sma, ema, rma, last } from "./moving-averages";
+export { rsi } from "./rsi";
+export { macd, type MacdResult } from "./macd";
+export { stochastic, type StochasticResult } from "./stochastic";
+export { atr, trueRange } from "./atr";
+export { adx, type AdxResult } from "./adx";
+export { mfi } from "./mfi";
+export { bollinger, type BollingerResult } from "./bollinger";
+export {
+  INDICATOR_PANE_IDS,
+  DEFAULT_INDICATOR_PANES,
+  computePaneSeries,
+  isIndicatorPaneId,
+  type IndicatorPaneId,
+} from "./panes";
+
+export interface IndicatorSnapshot {
+  rsi: number | null;
+  macd: number | null;
+  stochastic: number | null;
+  adx: number | null;
+  atr: number | null;
+  mfi: number | null;
+}
+
+// Latest value of each indicator the backend reports, computed locally so
+// the two can be compared side by side.
+export const indicatorSnapshot = (candles: Candle[]): IndicatorSnapshot => {
+  const closes = candles.map((candle) => candle.close);
+  return {
+    rsi: last(rsi(closes)),
+    macd: last(macd(closes).macd),
+    stochastic: last(stochastic(candles).k),
+    adx: last(adx(candles).adx),
+    atr: last(atr(candles)),
+    mfi: last(mfi(candles)),
+  };
+};
@@ -0,0 +1,19 @@
+import { ema, subtract } from "./moving-averages";
+import type { Series } from "./types";
+
+export interface MacdResult {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+export const macd = (
+  closes: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9
+): MacdResult => {
+  const line = subtract(ema(closes, fastPeriod), ema(closes, slowPeriod));
+  const signal = ema(line, signalPeriod);
+  return { macd: line, signal, histogram: subtract(line, signal) };
+};
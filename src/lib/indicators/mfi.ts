@@ -0,0 +1,18 @@
+import type { Series, VolumeBar } from "./types";
+
+// Money Flow Index: a volume-weighted RSI over typical prices.
+export const mfi = (bars: VolumeBar[], period = 14): Series => {
+  const typical = bars.map((bar) => (bar.high + bar.low + bar.close) / 3);
+  return bars.map((_, i) => {
+    if (i < period) return null;
+    let positive = 0;
+    let negative = 0;
+    for (let j = i - period + 1; j <= i; j++) {
+      const flow = typical[j] * bars[j].volume;
+      if (typical[j] > typical[j - 1]) positive += flow;
+      else if (typical[j] < typical[j - 1]) negative += flow;
+    }
+    if (negative === 0) return positive === 0 ? 50 : 100;
+    return 100 - 100 / (1 + positive / negative);
+  });
+};
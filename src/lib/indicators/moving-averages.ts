@@ -0,0 +1,59 @@
+import type { Series } from "./types";
+
+const emptySeries = (length: number): Series => new Array(length).fill(null);
+
+// Index of the first non-null value, so averages can run over series that
+// themselves start with a warm-up gap (e.g. the MACD line).
+const firstValueIndex = (values: Series): number =>
+  values.findIndex((value) => value !== null);
+
+export const sma = (values: Series, period: number): Series => {
+  const out = emptySeries(values.length);
+  const start = firstValueIndex(values);
+  if (start < 0 || period < 1) return out;
+
+  let sum = 0;
+  for (let i = start; i < values.length; i++) {
+    sum += values[i] as number;
+    if (i - start >= period) sum -= values[i - period] as number;
+    if (i - start >= period - 1) out[i] = sum / period;
+  }
+  return out;
+};
+
+// Exponential average seeded with the SMA of the first `period` values.
+const smoothed = (values: Series, period: number, alpha: number): Series => {
+  const out = emptySeries(values.length);
+  const start = firstValueIndex(values);
+  if (start < 0 || period < 1 || values.length - start < period) return out;
+
+  let average = 0;
+  for (let i = start; i < start + period; i++) average += values[i] as number;
+  average /= period;
+  out[start + period - 1] = average;
+
+  for (let i = start + period; i < values.length; i++) {
+    average += alpha * ((values[i] as number) - average);
+    out[i] = average;
+  }
+  return out;
+};
+
+export const ema = (values: Series, period: number): Series =>
+  smoothed(values, period, 2 / (period + 1));
+
+// Wilder's smoothing (RMA), used by RSI, ATR and ADX.
+export const rma = (values: Series, period: number): Series =>
+  smoothed(values, period, 1 / period);
+
+export const subtract = (a: Series, b: Series): Series =>
+  a.map((value, i) =>
+    value === null || b[i] === null ? null : value - (b[i] as number)
+  );
+
+export const last = (values: Series): number | null => {
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (values[i] !== null) return values[i];
+  }
+  return null;
+};
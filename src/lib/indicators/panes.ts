@@ -0,0 +1,46 @@
+import type { Candle } from "@/lib/api";
+import { adx } from "./adx";
+import { macd } from "./macd";
+import { rsi } from "./rsi";
+import { stochastic } from "./stochastic";
+import type { Series } from "./types";
+
+export const INDICATOR_PANE_IDS = ["rsi", "macd", "stochastic", "adx"] as const;
+export type IndicatorPaneId = (typeof INDICATOR_PANE_IDS)[number];
+
+export const DEFAULT_INDICATOR_PANES: IndicatorPaneId[] = ["rsi", "macd"];
+
+export const isIndicatorPaneId = (value: unknown): value is IndicatorPaneId =>
+  INDICATOR_PANE_IDS.includes(value as IndicatorPaneId);
+
+// Full-length series for each pane, keyed by the name the pane plots.
+export const computePaneSeries = (
+  id: IndicatorPaneId,
+  candles: Candle[]
+): Record<string, Series> => {
+  const closes = candles.map((candle) => candle.close);
+  switch (id) {
+    case "rsi":
+      return { rsi: rsi(closes) };
+    case "macd": {
+      const result = macd(closes);
+      return {
+        macd: result.macd,
+        signal: result.signal,
+        histogram: result.histogram,
+      };
+    }
+    case "stochastic": {
+      const result = stochastic(candles);
+      return { k: result.k, d: result.d };
+    }
+    case "adx": {
+      const result = adx(candles);
+      return {
+        adx: result.adx,
+        plusDI: result.plusDI,
+        minusDI: result.minusDI,
+      };
+    }
+  }
+};
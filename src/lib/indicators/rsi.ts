@@ -0,0 +1,22 @@
+import { rma } from "./moving-averages";
+import type { Series } from "./types";
+
+// Wilder's RSI. The first value lands on index `period`.
+export const rsi = (closes: number[], period = 14): Series => {
+  const gains: Series = [null];
+  const losses: Series = [null];
+  for (let i = 1; i < closes.length; i++) {
+    const change = closes[i] - closes[i - 1];
+    gains.push(Math.max(change, 0));
+    losses.push(Math.max(-change, 0));
+  }
+
+  const averageGain = rma(gains, period);
+  const averageLoss = rma(losses, period);
+  return averageGain.map((gain, i) => {
+    const loss = averageLoss[i];
+    if (gain === null || loss === null) return null;
+    if (loss === 0) return gain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + gain / loss);
+  });
+};
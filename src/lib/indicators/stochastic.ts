@@ -0,0 +1,27 @@
+import { sma } from "./moving-averages";
+import type { PriceBar, Series } from "./types";
+
+export interface StochasticResult {
+  k: Series;
+  d: Series;
+}
+
+// %K over `kPeriod` bars, optionally smoothed (slow stochastic when
+// kSmoothing > 1), and %D as the SMA of %K.
+export const stochastic = (
+  bars: PriceBar[],
+  kPeriod = 14,
+  dPeriod = 3,
+  kSmoothing = 1
+): StochasticResult => {
+  const raw: Series = bars.map((bar, i) => {
+    if (i < kPeriod - 1) return null;
+    const window = bars.slice(i - kPeriod + 1, i + 1);
+    const highest = Math.max(...window.map((b) => b.high));
+    const lowest = Math.min(...window.map((b) => b.low));
+    return highest === lowest ? 50 : (100 * (bar.close - lowest)) / (highest - lowest);
+  });
+
+  const k = kSmoothing > 1 ? sma(raw, kSmoothing) : raw;
+  return { k, d: sma(k, dPeriod) };
+};
@@ -0,0 +1,8 @@
+import type { Candle } from "@/lib/api";
+
+// Every indicator returns a series aligned index-for-index with its input.
+// Bars inside the warm-up window are null rather than a misleading number.
+export type Series = (number | null)[];
+
+export type PriceBar = Pick<Candle, "high" | "low" | "close">;
+export type VolumeBar = Pick<Candle, "high" | "low" | "close" | "volume">;
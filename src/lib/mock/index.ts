@@ -0,0 +1,17 @@
+export * from "./prediction";
+export * from "./market";
+export * from "./news";
+
+export type MockBackend = "alpha-vantage" | "yahoo";
+
+// Route segments mirror the upstream paths so the client only swaps origins.
+const MOCK_BACKENDS: Record<string, MockBackend> = {
+  "api-analysis": "alpha-vantage",
+  "api-analysis-yahoo": "yahoo",
+};
+
+export const resolveMockBackend = (segment: string): MockBackend | null =>
+  MOCK_BACKENDS[segment] ?? null;
+
+export const mockNotFound = () =>
+  Response.json({ detail: "Unknown mock backend" }, { status: 404 });
@@ -0,0 +1,44 @@
+import type { MarketMovers, TickerInfo } from "@/lib/api/schemas";
+import { between, createRandom, round } from "./random";
+import { formatDay, startOfUtcDay } from "./prediction";
+
+const TICKERS = [
+  "AAPL", "MSFT", "NVDA", "TSLA", "AMD", "META", "AMZN", "GOOGL",
+  "COIN", "MSTR", "PLTR", "RIOT", "MARA", "HOOD", "SOFI", "INTC",
+  "BABA", "NFLX", "UBER", "SHOP", "SQ", "PYPL", "SNAP", "F",
+];
+
+const YAHOO_TICKERS = [
+  "BTC-USD", "ETH-USD", "SOL-USD", "BNB-USD", "XRP-USD", "ADA-USD",
+  "DOT-USD", "DOGE-USD", "AVAX-USD", "LINK-USD", "MATIC-USD", "LTC-USD",
+  "TRX-USD", "SHIB-USD", "ATOM-USD", "XLM-USD",
+];
+
+export const generateMockMarketMovers = (
+  backend: "alpha-vantage" | "yahoo",
+  now = new Date()
+): MarketMovers => {
+  const day = formatDay(startOfUtcDay(now));
+  const random = createRandom(`market-movers:${backend}:${day}`);
+  const universe = backend === "yahoo" ? YAHOO_TICKERS : TICKERS;
+
+  const tickers: TickerInfo[] = universe.map((ticker) => {
+    const price = round(between(random, 1, 500));
+    const changePercentage = round(between(random, -25, 25));
+    return {
+      ticker,
+      price,
+      change_amount: round((price * changePercentage) / (100 + changePercentage), 4),
+      change_percentage: changePercentage,
+      volume: Math.round(between(random, 0.5, 120) * 1e6),
+    };
+  });
+
+  const byChange = [...tickers].sort((a, b) => b.change_percentage - a.change_percentage);
+  return {
+    top_gainers: byChange.slice(0, 5),
+    top_losers: byChange.slice(-5).reverse(),
+    most_actively_traded: [...tickers].sort((a, b) => b.volume - a.volume).slice(0, 5),
+    last_updated: `${day} 16:15:59 US/Eastern`,
+  };
+};
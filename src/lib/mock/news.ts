@@ -0,0 +1,147 @@
+import type {
+  NewsArticle,
+  NewsSentiment,
+  YahooNewsResponse,
+} from "@/lib/api/schemas";
+import { between, createRandom, pick, round } from "./random";
+import { baseSymbol, formatDay, startOfUtcDay } from "./prediction";
+
+const HEADLINES = [
+  "{s} rallies as institutional inflows accelerate",
+  "{s} slips after regulators signal tighter oversight",
+  "Analysts split on {s} outlook ahead of macro data",
+  "{s} network activity hits multi-month high",
+  "Whale wallets move large {s} balances to exchanges",
+  "{s} options market prices in elevated volatility",
+  "ETF flows put {s} back in the spotlight",
+  "{s} developers ship long-awaited protocol upgrade",
+  "Miners and validators adjust as {s} fees fall",
+  "Traders eye key {s} support level after sell-off",
+];
+
+const SOURCES = [
+  { source: "CoinDesk", domain: "www.coindesk.com" },
+  { source: "Decrypt", domain: "decrypt.co" },
+  { source: "Cointelegraph", domain: "cointelegraph.com" },
+  { source: "Benzinga", domain: "www.benzinga.com" },
+  { source: "Motley Fool", domain: "www.fool.com" },
+];
+
+const TOPICS = [
+  "Blockchain",
+  "Financial Markets",
+  "Economy - Monetary",
+  "Technology",
+  "Finance",
+  "Earnings",
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Alpha Vantage thresholds for its sentiment_label buckets.
+const sentimentLabel = (score: number): string => {
+  if (score <= -0.35) return "Bearish";
+  if (score <= -0.15) return "Somewhat-Bearish";
+  if (score < 0.15) return "Neutral";
+  if (score < 0.35) return "Somewhat-Bullish";
+  return "Bullish";
+};
+
+// 2025-02-24T23:10:00.000Z -> 20250224T231000
+const alphaTimestamp = (time: number): string =>
+  new Date(time).toISOString().replace(/[-:]/g, "").slice(0, 15);
+
+// Articles the mock feed holds per symbol and day; /news pages through them.
+export const MOCK_NEWS_TOTAL = 120;
+
+export const generateMockNewsSentiment = (
+  symbol: string,
+  limit = 20,
+  offset = 0,
+  now = new Date()
+): NewsSentiment => {
+  const base = baseSymbol(symbol);
+  const random = createRandom(`news:${base}:${formatDay(startOfUtcDay(now))}`);
+  // Ticker sentiment draws from its own stream so the article fields stay the
+  // same for a given seed.
+  const tickerRandom = createRandom(`news-tickers:${base}:${formatDay(startOfUtcDay(now))}`);
+  const end = startOfUtcDay(now) + 12 * HOUR_MS;
+
+  const articles: NewsArticle[] = Array.from({ length: MOCK_NEWS_TOTAL }, (_, i) => {
+    const score = round(between(random, -0.6, 0.7), 6);
+    const { source, domain } = pick(random, SOURCES);
+    const title = pick(random, HEADLINES).replace("{s}", base);
+    const article = {
+      title,
+      url: `https://${domain}/mock/${base.toLowerCase()}-${i + 1}`,
+      time_published: alphaTimestamp(end - Math.floor(between(random, 0, 14 * 24)) * HOUR_MS),
+      authors: [`${source} Staff`],
+      summary: `${title}. This is generated mock content for offline development.`,
+      source,
+      category_within_source: "n/a",
+      source_domain: domain,
+      sentiment_score: score,
+      sentiment_label: sentimentLabel(score),
+      topics: [pick(random, TOPICS), pick(random, TOPICS)].filter(
+        (topic, index, all) => all.indexOf(topic) === index
+      ),
+      tickers: [`CRYPTO:${base}`, ...(random() > 0.6 ? ["COIN"] : [])],
+    };
+    return {
+      ...article,
+      ticker_sentiment: article.tickers.map((ticker) => {
+        const tickerScore = round(
+          Math.max(-1, Math.min(1, score + between(tickerRandom, -0.2, 0.2))),
+          6
+        );
+        return {
+          ticker,
+          relevance_score: round(between(tickerRandom, 0.1, 1), 6),
+          ticker_sentiment_score: tickerScore,
+          ticker_sentiment_label: sentimentLabel(tickerScore),
+        };
+      }),
+    };
+  }).sort((a, b) => b.time_published.localeCompare(a.time_published));
+
+  // The summary covers every article, as total_count does.
+  const count = (predicate: (label: string) => boolean) =>
+    articles.filter((item) => predicate(item.sentiment_label)).length;
+
+  return {
+    items: articles.slice(offset, offset + limit),
+    sentiment_summary: {
+      positive: count((label) => label.endsWith("Bullish")),
+      neutral: count((label) => label === "Neutral"),
+      negative: count((label) => label.endsWith("Bearish")),
+      average_score: round(
+        articles.reduce((sum, item) => sum + item.sentiment_score, 0) / articles.length,
+        4
+      ),
+    },
+    total_count: articles.length,
+  };
+};
+
+export const generateMockYahooNews = (
+  symbol: string,
+  limit = 10,
+  now = new Date()
+): YahooNewsResponse => {
+  const articles = generateMockNewsSentiment(symbol, limit, 0, now).items;
+  return {
+    items: articles.map((article) => ({
+      title: article.title,
+      url: article.url,
+      publisher: article.source,
+      published_date: new Date(
+        article.time_published.replace(
+          /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})$/,
+          "$1-$2-$3T$4:$5:$6Z"
+        )
+      ).toISOString(),
+      summary: article.summary,
+    })),
+    total_count: articles.length,
+  };
+};
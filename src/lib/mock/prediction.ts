@@ -0,0 +1,237 @@
+import type { Candle, ForecastPoint, PredictionData } from "@/lib/api/schemas";
+import { Random, between, createRandom, gaussian, round } from "./random";
+import { Color, Raster } from "./png";
+
+export interface MockPredictionRequest {
+  symbol: string;
+  timeframe: string;
+  period: string;
+  seed?: string;
+}
+
+const BASE_PRICES: Record<string, number> = {
+  BTC: 62000,
+  ETH: 3100,
+  SOL: 145,
+  BNB: 560,
+  XRP: 0.58,
+  ADA: 0.46,
+  DOT: 7.2,
+  DOGE: 0.12,
+};
+
+const FORECAST_STEPS = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const timeframeDays = (timeframe: string): number => {
+  switch (timeframe) {
+    case "weekly":
+    case "1wk":
+      return 7;
+    case "monthly":
+    case "1mo":
+      return 30;
+    default:
+      return 1;
+  }
+};
+
+const periodDays = (period: string): number => {
+  if (period === "max") return 730;
+  const match = /^(\d+)([dy]?)$/.exec(period);
+  if (!match) return 180;
+  const value = Number(match[1]);
+  return match[2] === "y" ? value * 365 : value;
+};
+
+// "BTC-USD" and "BTC" both resolve to BTC.
+export const baseSymbol = (symbol: string): string =>
+  symbol.toUpperCase().split("-")[0];
+
+export const formatDay = (time: number): string =>
+  new Date(time).toISOString().slice(0, 10);
+
+export const startOfUtcDay = (date = new Date()): number =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const generateCandles = (
+  random: Random,
+  startPrice: number,
+  count: number,
+  stepDays: number,
+  anchor: number
+): Candle[] => {
+  const volatility = 0.025 * Math.sqrt(stepDays);
+  const candles: Candle[] = [];
+  let close = startPrice;
+  for (let i = 0; i < count; i++) {
+    const open = close;
+    close = open * Math.exp(gaussian(random) * volatility + 0.0005);
+    const high = Math.max(open, close) * (1 + random() * volatility * 0.6);
+    const low = Math.min(open, close) * (1 - random() * volatility * 0.6);
+    candles.push({
+      date: formatDay(anchor - (count - 1 - i) * stepDays * DAY_MS),
+      open,
+      high,
+      low,
+      close,
+      volume: between(random, 0.6, 1.6) * 1e6 * (1 + Math.abs(close / open - 1) * 40),
+    });
+  }
+  return candles;
+};
+
+const simpleRsi = (closes: number[], length = 14): number => {
+  const window = closes.slice(-(length + 1));
+  let gains = 0;
+  let losses = 0;
+  for (let i = 1; i < window.length; i++) {
+    const change = window[i] - window[i - 1];
+    if (change > 0) gains += change;
+    else losses -= change;
+  }
+  if (losses === 0) return 100;
+  return 100 - 100 / (1 + gains / losses);
+};
+
+const buildForecast = (
+  random: Random,
+  lastClose: number,
+  probabilityUp: number,
+  stepDays: number,
+  anchor: number
+): ForecastPoint[] => {
+  const drift = (probabilityUp - 0.5) * 0.02;
+  const volatility = 0.02 * Math.sqrt(stepDays);
+  const forecast: ForecastPoint[] = [];
+  let previous = lastClose;
+  for (let step = 1; step <= FORECAST_STEPS; step++) {
+    const predicted = previous * Math.exp(drift + gaussian(random) * volatility * 0.3);
+    const width = lastClose * volatility * Math.sqrt(step) * 1.64;
+    const direction = predicted >= previous ? "UP" : "DOWN";
+    // Confidence decays towards a coin flip the further out we forecast.
+    const edge = Math.abs(probabilityUp - 0.5) * Math.exp(-step / 8);
+    forecast.push({
+      date: formatDay(anchor + step * stepDays * DAY_MS),
+      predicted_price: round(predicted),
+      prediction_interval_low: round(predicted - width),
+      prediction_interval_high: round(predicted + width),
+      direction,
+      probability: round(0.5 + edge + random() * 0.05, 4),
+    });
+    previous = predicted;
+  }
+  return forecast;
+};
+
+const BLUE: Color = [37, 99, 235];
+const ORANGE: Color = [234, 88, 12];
+const GREY: Color = [203, 213, 225];
+const AXIS: Color = [100, 116, 139];
+
+const renderPlot = (candles: Candle[], forecast: ForecastPoint[]): string => {
+  const width = 800;
+  const height = 450;
+  const padding = 30;
+  const raster = new Raster(width, height, [255, 255, 255]);
+
+  const values = [
+    ...candles.flatMap((c) => [c.high, c.low]),
+    ...forecast.flatMap((f) => [f.prediction_interval_low, f.prediction_interval_high]),
+  ];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const total = candles.length + forecast.length;
+  const x = (i: number) => padding + (i / Math.max(total - 1, 1)) * (width - padding * 2);
+  const y = (v: number) =>
+    height - padding - ((v - min) / (max - min || 1)) * (height - padding * 2);
+
+  raster.line(padding, height - padding, width - padding, height - padding, AXIS);
+  raster.line(padding, padding, padding, height - padding, AXIS);
+
+  const offset = candles.length - 1;
+  for (let i = 1; i < forecast.length; i++) {
+    const [from, to] = [forecast[i - 1], forecast[i]];
+    raster.line(
+      x(offset + i), y(from.prediction_interval_low),
+      x(offset + i + 1), y(to.prediction_interval_low),
+      GREY
+    );
+    raster.line(
+      x(offset + i), y(from.prediction_interval_high),
+      x(offset + i + 1), y(to.prediction_interval_high),
+      GREY
+    );
+  }
+  for (let i = 1; i < candles.length; i++) {
+    raster.line(x(i - 1), y(candles[i - 1].close), x(i), y(candles[i].close), BLUE, 2);
+  }
+  let previous = candles[candles.length - 1].close;
+  forecast.forEach((point, i) => {
+    raster.line(x(offset + i), y(previous), x(offset + i + 1), y(point.predicted_price), ORANGE, 2);
+    previous = point.predicted_price;
+  });
+
+  return raster.toPng().toString("base64");
+};
+
+export const generateMockPrediction = (
+  request: MockPredictionRequest,
+  now = new Date()
+): PredictionData => {
+  const anchor = startOfUtcDay(now);
+  const symbol = baseSymbol(request.symbol);
+  const stepDays = timeframeDays(request.timeframe);
+  const count = Math.min(Math.max(Math.ceil(periodDays(request.period) / stepDays), 30), 400);
+  const random = createRandom(
+    request.seed ??
+      `${symbol}:${request.timeframe}:${request.period}:${formatDay(anchor)}`
+  );
+
+  const basePrice = (BASE_PRICES[symbol] ?? 100) * between(random, 0.85, 1.15);
+  const candles = generateCandles(random, basePrice, count, stepDays, anchor);
+  const closes = candles.map((c) => c.close);
+  const lastClose = closes[closes.length - 1];
+
+  const probabilityUp = round(between(random, 0.3, 0.75), 4);
+  const forecast = buildForecast(random, lastClose, probabilityUp, stepDays, anchor);
+
+  const rsi = simpleRsi(closes);
+  const macd = (closes[closes.length - 1] - closes[Math.max(closes.length - 12, 0)]) / 12;
+  const stochastic = between(random, 5, 95);
+  const adx = between(random, 10, 45);
+  const atr =
+    candles.slice(-14).reduce((sum, c) => sum + (c.high - c.low), 0) /
+    Math.min(candles.length, 14);
+
+  return {
+    prediction: probabilityUp >= 0.5 ? "UP" : "DOWN",
+    probability_up: probabilityUp,
+    probability_down: round(1 - probabilityUp, 4),
+    current_price: round(lastClose),
+    technical_indicators: {
+      rsi: round(rsi),
+      rsi_signal: rsi > 70 ? "Overbought" : rsi < 30 ? "Oversold" : "Neutral",
+      macd: round(macd, 4),
+      macd_signal: macd >= 0 ? "Bullish" : "Bearish",
+      stochastic: round(stochastic),
+      stochastic_signal:
+        stochastic > 80 ? "Overbought" : stochastic < 20 ? "Oversold" : "Neutral",
+      adx: round(adx),
+      trend_strength: adx > 25 ? "Strong" : "Weak",
+      atr: round(atr, 4),
+      mfi: round(between(random, 15, 85)),
+    },
+    accuracy: round(between(random, 0.52, 0.68), 4),
+    plot_base64: renderPlot(candles, forecast),
+    forecast,
+    ohlcv: candles.map((candle) => ({
+      date: candle.date,
+      open: round(candle.open, 6),
+      high: round(candle.high, 6),
+      low: round(candle.low, 6),
+      close: round(candle.close, 6),
+      volume: Math.round(candle.volume),
+    })),
+  };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { MOCK_NEWS_TOTAL, generateMockNewsSentiment } from "@/lib/mock";
+import { appendNewsPage, hasMoreNews } from "..";
+
+const NOW = new Date("2025-02-24T12:00:00Z");
+
+const page = (offset: number, limit = 50) =>
+  generateMockNewsSentiment("BTC", limit, offset, NOW);
+
+describe("appendNewsPage", () => {
+  it("pages through the whole feed in order", () => {
+    let news = page(0);
+    while (hasMoreNews(news)) {
+      news = appendNewsPage(news, page(news.items.length));
+    }
+    expect(news.items).toEqual(page(0, MOCK_NEWS_TOTAL).items);
+    expect(news.total_count).toBe(MOCK_NEWS_TOTAL);
+  });
+
+  it("keeps the first page's summary", () => {
+    const first = page(0);
+    expect(appendNewsPage(first, page(50)).sentiment_summary).toEqual(first.sentiment_summary);
+  });
+
+  it("stops when a page brings nothing new", () => {
+    // A backend that ignores the offset sends the first page again.
+    const news = appendNewsPage(page(0), page(0));
+    expect(news.items).toHaveLength(50);
+    expect(hasMoreNews(news)).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import type { NewsArticle } from "@/lib/api";
+import { TimeZoneId, dayKey } from "@/lib/dates";
+
+export const NEWS_FACETS = [
+  { key: "sentiment_label", label: "Sentiment" },
+  { key: "topics", label: "Topics" },
+  { key: "tickers", label: "Tickers" },
+  { key: "source", label: "Source" },
+  { key: "source_domain", label: "Domain" },
+] as const;
+
+export type NewsFacet = (typeof NEWS_FACETS)[number]["key"];
+
+export interface NewsFilters {
+  // Selected values per facet. Values within a facet are alternatives;
+  // different facets must all match.
+  facets: Record<NewsFacet, string[]>;
+  // Inclusive days, YYYY-MM-DD as produced by <input type="date">, in the
+  // display time zone.
+  from: string;
+  to: string;
+  query: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export const EMPTY_NEWS_FILTERS: NewsFilters = {
+  facets: {
+    sentiment_label: [],
+    topics: [],
+    tickers: [],
+    source: [],
+    source_domain: [],
+  },
+  from: "",
+  to: "",
+  query: "",
+};
+
+export const hasActiveFilters = (filters: NewsFilters): boolean =>
+  Boolean(filters.from || filters.to || filters.query.trim()) ||
+  Object.values(filters.facets).some((values) => values.length > 0);
+
+const facetValues = (article: NewsArticle, facet: NewsFacet): string[] => {
+  const value = article[facet];
+  return (Array.isArray(value) ? value : [value]).filter(Boolean);
+};
+
+const matchesQuery = (article: NewsArticle, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (!terms.length) return true;
+  const text = `${article.title} ${article.summary}`.toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+const matchesDates = (
+  article: NewsArticle,
+  { from, to }: NewsFilters,
+  timeZone: TimeZoneId
+): boolean => {
+  if (!from && !to) return true;
+  const day = dayKey(article.time_published, timeZone);
+  return day !== null && (!from || day >= from) && (!to || day <= to);
+};
+
+// Every filter except the selection on `skip`, which is how the counts of a
+// facet's own values are computed.
+const matches = (
+  article: NewsArticle,
+  filters: NewsFilters,
+  timeZone: TimeZoneId,
+  skip?: NewsFacet
+): boolean =>
+  matchesQuery(article, filters.query) &&
+  matchesDates(article, filters, timeZone) &&
+  NEWS_FACETS.every(({ key }) => {
+    const selected = filters.facets[key];
+    return (
+      key === skip ||
+      !selected.length ||
+      facetValues(article, key).some((value) => selected.includes(value))
+    );
+  });
+
+export const filterNews = (
+  articles: NewsArticle[],
+  filters: NewsFilters,
+  timeZone: TimeZoneId
+): NewsArticle[] => articles.filter((article) => matches(article, filters, timeZone));
+
+// Counts per facet value among the articles that pass every other filter, so
+// the numbers say how many results picking that value would add. Selected
+// values are always listed, most frequent first.
+export const facetCounts = (
+  articles: NewsArticle[],
+  filters: NewsFilters,
+  timeZone: TimeZoneId
+): Record<NewsFacet, FacetCount[]> =>
+  Object.fromEntries(
+    NEWS_FACETS.map(({ key }) => {
+      const counts = new Map<string, number>(
+        filters.facets[key].map((value) => [value, 0])
+      );
+      articles
+        .filter((article) => matches(article, filters, timeZone, key))
+        .forEach((article) =>
+          facetValues(article, key).forEach((value) =>
+            counts.set(value, (counts.get(value) ?? 0) + 1)
+          )
+        );
+      const sorted = Array.from(counts, ([value, count]) => ({ value, count })).sort(
+        (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+      );
+      return [key, sorted];
+    })
+  ) as Record<NewsFacet, FacetCount[]>;
@@ -0,0 +1,22 @@
+import type { NewsSentiment } from "@/lib/api";
+
+export const hasMoreNews = (news: NewsSentiment): boolean =>
+  news.items.length < news.total_count;
+
+// Adds the backend's next page to the articles loaded so far, skipping any
+// already loaded. A page with nothing new ends the paging, so a backend that
+// ignores the offset is not asked again. The sentiment summary stays the
+// first page's.
+export const appendNewsPage = (
+  loaded: NewsSentiment,
+  page: NewsSentiment
+): NewsSentiment => {
+  const urls = new Set(loaded.items.map((article) => article.url));
+  const added = page.items.filter((article) => !urls.has(article.url));
+  const items = [...loaded.items, ...added];
+  return {
+    ...loaded,
+    items,
+    total_count: added.length ? Math.max(page.total_count, items.length) : items.length,
+  };
+};
@@ -0,0 +1,14 @@
+export type PageSlot = number | "ellipsis";
+
+// Page numbers to show around `current` (1-based): always the first and last
+// page, `siblings` pages either side, and an ellipsis for each gap.
+export const pageSlots = (current: number, pageCount: number, siblings = 1): PageSlot[] => {
+  const pages = new Set([1, pageCount]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page >= 1 && page <= pageCount) pages.add(page);
+  }
+  const sorted = Array.from(pages).filter((page) => page >= 1).sort((a, b) => a - b);
+  return sorted.flatMap((page, i) =>
+    i > 0 && page - sorted[i - 1] > 1 ? ["ellipsis" as const, page] : [page]
+  );
+};
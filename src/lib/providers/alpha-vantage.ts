@@ -0,0 +1,52 @@
+import {
+  AlphaVantageFormData,
+  fetchAlphaVantageMarketMovers,
+  fetchAlphaVantageNews,
+  fetchAlphaVantagePrediction,
+} from "@/lib/api";
+import type { AnalysisParams, DataProvider } from "./types";
+
+export const ALPHA_VANTAGE_QUOTE_CURRENCY = "USD";
+
+const toFormData = ({ symbol, timeframe, period }: AnalysisParams): AlphaVantageFormData => ({
+  base_currency: symbol,
+  quote_currency: ALPHA_VANTAGE_QUOTE_CURRENCY,
+  timeframe,
+  period,
+});
+
+export const alphaVantageProvider: DataProvider = {
+  id: "alpha-vantage",
+  label: "Alpha Vantage",
+  description: "Digital currency series from Alpha Vantage",
+  backend: "api-analysis",
+  symbols: [
+    { value: "BTC", label: "Bitcoin" },
+    { value: "ETH", label: "Ethereum" },
+    { value: "SOL", label: "Solana" },
+    { value: "BNB", label: "Binance Coin" },
+    { value: "XRP", label: "Ripple" },
+    { value: "ADA", label: "Cardano" },
+    { value: "DOT", label: "Polkadot" },
+    { value: "DOGE", label: "Dogecoin" },
+  ],
+  timeframes: [
+    { value: "daily", label: "Daily" },
+    { value: "weekly", label: "Weekly" },
+    { value: "monthly", label: "Monthly" },
+  ],
+  periods: [
+    { value: "30", label: "30 Days" },
+    { value: "60", label: "60 Days" },
+    { value: "90", label: "90 Days" },
+    { value: "120", label: "120 Days" },
+    { value: "180", label: "180 Days" },
+    { value: "360", label: "360 Days" },
+  ],
+  credentials: ["alpha-vantage-api-key"],
+  defaults: { symbol: "BTC", timeframe: "daily", period: "180" },
+  toFormData,
+  fetchPrediction: (params) => fetchAlphaVantagePrediction(toFormData(params)),
+  fetchMarketMovers: fetchAlphaVantageMarketMovers,
+  fetchNewsSentiment: ({ symbol }, offset) => fetchAlphaVantageNews(symbol, offset),
+};
@@ -0,0 +1,27 @@
+import { alphaVantageProvider } from "./alpha-vantage";
+import { yahooProvider } from "./yahoo";
+import type { DataProvider, ProviderId } from "./types";
+
+export * from "./types";
+export { alphaVantageProvider, ALPHA_VANTAGE_QUOTE_CURRENCY } from "./alpha-vantage";
+export { yahooProvider } from "./yahoo";
+export { toYahooParams, toYahooSymbol } from "./mapping";
+export {
+  analysisSearch,
+  paramsFromSearch,
+  providerFromSearch,
+  runFromSearch,
+} from "./search-params";
+
+// Adding a data source means adding a DataProvider here; the analysis
+// dashboard renders its form and tabs from these descriptions.
+export const DATA_PROVIDERS: readonly DataProvider[] = [
+  alphaVantageProvider,
+  yahooProvider,
+];
+
+export const getProvider = (id: ProviderId): DataProvider =>
+  DATA_PROVIDERS.find((provider) => provider.id === id) ?? alphaVantageProvider;
+
+export const isProviderId = (value: unknown): value is ProviderId =>
+  DATA_PROVIDERS.some((provider) => provider.id === value);
@@ -0,0 +1,35 @@
+import { ALPHA_VANTAGE_QUOTE_CURRENCY } from "./alpha-vantage";
+import type { AnalysisParams } from "./types";
+
+// Alpha Vantage takes a base and a quote currency; Yahoo names the pair,
+// so BTC + USD becomes BTC-USD.
+export const toYahooSymbol = (
+  base: string,
+  quote: string = ALPHA_VANTAGE_QUOTE_CURRENCY
+): string => `${base}-${quote}`;
+
+const YAHOO_TIMEFRAMES: Record<string, string> = {
+  daily: "1d",
+  weekly: "1wk",
+  monthly: "1mo",
+};
+
+// Yahoo only offers fixed look-back windows; pick the shortest one that still
+// covers the Alpha Vantage period (in days).
+const YAHOO_PERIODS: [days: number, period: string][] = [
+  [7, "7d"],
+  [30, "30d"],
+  [90, "90d"],
+  [365, "1y"],
+];
+
+const toYahooPeriod = (days: string): string =>
+  YAHOO_PERIODS.find(([limit]) => Number(days) <= limit)?.[1] ?? "max";
+
+// The Yahoo request that matches an Alpha Vantage one as closely as the two
+// APIs allow.
+export const toYahooParams = (params: AnalysisParams): AnalysisParams => ({
+  symbol: toYahooSymbol(params.symbol),
+  timeframe: YAHOO_TIMEFRAMES[params.timeframe] ?? params.timeframe,
+  period: toYahooPeriod(params.period),
+});
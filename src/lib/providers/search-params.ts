@@ -0,0 +1,80 @@
+import type { AnalysisParams, DataProvider, ProviderId, ProviderOption } from "./types";
+
+// Query string keys of a shareable analysis link, e.g.
+// /home?base=ETH&tf=weekly&period=90&run=1. Alpha Vantage calls the symbol
+// the base currency, Yahoo names the pair.
+const SYMBOL_KEYS: Record<ProviderId, string> = {
+  "alpha-vantage": "base",
+  yahoo: "symbol",
+};
+const TIMEFRAME_KEY = "tf";
+const PERIOD_KEY = "period";
+const RUN_KEY = "run";
+const PROVIDER_KEY = "source";
+
+// Credentials are never shared through a link; a URL that carries one has
+// it dropped on the next sync.
+const SECRET_KEYS = ["api_key", "apikey", "apiKey", "key", "token"];
+
+const matchOption = (
+  options: ProviderOption[],
+  value: string | null
+): string | undefined =>
+  value === null
+    ? undefined
+    : options.find((option) => option.value.toLowerCase() === value.trim().toLowerCase())
+        ?.value;
+
+// Unvalidated; check it with isProviderId.
+export const providerFromSearch = (search: URLSearchParams): string | null =>
+  search.get(PROVIDER_KEY);
+
+// The params a link asks for, keeping only values the provider offers.
+export const paramsFromSearch = (
+  provider: DataProvider,
+  search: URLSearchParams
+): Partial<AnalysisParams> => {
+  const params: Partial<AnalysisParams> = {
+    symbol: matchOption(
+      provider.symbols,
+      search.get(SYMBOL_KEYS[provider.id]) ?? search.get("symbol")
+    ),
+    timeframe: matchOption(provider.timeframes, search.get(TIMEFRAME_KEY)),
+    period: matchOption(provider.periods, search.get(PERIOD_KEY)),
+  };
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined)
+  );
+};
+
+export const runFromSearch = (search: URLSearchParams): boolean =>
+  search.get(RUN_KEY) === "1";
+
+// The query string for the given state: the analysis keys first, then any
+// unrelated keys from `search`. Secret keys are dropped.
+export const analysisSearch = (
+  search: URLSearchParams,
+  provider: DataProvider,
+  params: AnalysisParams,
+  options: { run: boolean; includeProvider: boolean }
+): URLSearchParams => {
+  const next = new URLSearchParams();
+  if (options.includeProvider) next.set(PROVIDER_KEY, provider.id);
+  next.set(SYMBOL_KEYS[provider.id], params.symbol);
+  next.set(TIMEFRAME_KEY, params.timeframe);
+  next.set(PERIOD_KEY, params.period);
+  if (options.run) next.set(RUN_KEY, "1");
+
+  const owned = [
+    ...SECRET_KEYS,
+    ...Object.values(SYMBOL_KEYS),
+    TIMEFRAME_KEY,
+    PERIOD_KEY,
+    PROVIDER_KEY,
+    RUN_KEY,
+  ];
+  search.forEach((value, key) => {
+    if (!owned.includes(key)) next.append(key, value);
+  });
+  return next;
+};
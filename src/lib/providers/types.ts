@@ -0,0 +1,46 @@
+import type {
+  AlphaVantageFormData,
+  BackendPath,
+  MarketMovers,
+  NewsSentiment,
+  PredictionData,
+  YahooFormData,
+  YahooNewsResponse,
+} from "@/lib/api";
+
+export type ProviderId = "alpha-vantage" | "yahoo";
+
+export interface ProviderOption {
+  value: string;
+  label: string;
+}
+
+// Provider-neutral form state. `symbol` holds the provider's own symbol
+// (e.g. "BTC" for Alpha Vantage, "BTC-USD" for Yahoo).
+export interface AnalysisParams {
+  symbol: string;
+  timeframe: string;
+  period: string;
+}
+
+export type CredentialRequirement = "alpha-vantage-api-key";
+
+export interface DataProvider {
+  id: ProviderId;
+  label: string;
+  description: string;
+  backend: BackendPath;
+  symbols: ProviderOption[];
+  timeframes: ProviderOption[];
+  periods: ProviderOption[];
+  credentials: CredentialRequirement[];
+  defaults: AnalysisParams;
+  // The /predict request body the backend receives for these params.
+  toFormData: (params: AnalysisParams) => AlphaVantageFormData | YahooFormData;
+  fetchPrediction: (params: AnalysisParams) => Promise<PredictionData>;
+  fetchMarketMovers: () => Promise<MarketMovers>;
+  fetchHeadlines?: (params: AnalysisParams) => Promise<YahooNewsResponse>;
+  // Articles scored for sentiment; only Alpha Vantage offers these. `offset`
+  // pages through the backend's total_count.
+  fetchNewsSentiment?: (params: AnalysisParams, offset?: number) => Promise<NewsSentiment>;
+}
@@ -0,0 +1,41 @@
+import {
+  fetchYahooMarketMovers,
+  fetchYahooNews,
+  fetchYahooPrediction,
+} from "@/lib/api";
+import type { DataProvider } from "./types";
+
+export const yahooProvider: DataProvider = {
+  id: "yahoo",
+  label: "Yahoo Finance",
+  description: "Crypto pairs from Yahoo Finance, no API key needed",
+  backend: "api-analysis-yahoo",
+  symbols: [
+    { value: "BTC-USD", label: "Bitcoin" },
+    { value: "ETH-USD", label: "Ethereum" },
+    { value: "SOL-USD", label: "Solana" },
+    { value: "BNB-USD", label: "Binance Coin" },
+    { value: "XRP-USD", label: "Ripple" },
+    { value: "ADA-USD", label: "Cardano" },
+    { value: "DOT-USD", label: "Polkadot" },
+    { value: "DOGE-USD", label: "Dogecoin" },
+  ],
+  timeframes: [
+    { value: "1d", label: "Daily" },
+    { value: "1wk", label: "Weekly" },
+    { value: "1mo", label: "Monthly" },
+  ],
+  periods: [
+    { value: "7d", label: "7 Days" },
+    { value: "30d", label: "30 Days" },
+    { value: "90d", label: "90 Days" },
+    { value: "1y", label: "1 Year" },
+    { value: "max", label: "Maximum" },
+  ],
+  credentials: [],
+  defaults: { symbol: "BTC-USD", timeframe: "1d", period: "30d" },
+  toFormData: ({ symbol, timeframe, period }) => ({ symbol, timeframe, period }),
+  fetchPrediction: (params) => fetchYahooPrediction(params),
+  fetchMarketMovers: fetchYahooMarketMovers,
+  fetchHeadlines: ({ symbol }) => fetchYahooNews(symbol),
+};
@@ -0,0 +1,72 @@
+export interface ReportImage {
+  // PNG data URL.
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Recharts colors its SVG through CSS variables and classes, which a
+// standalone image cannot resolve. These are copied from the computed style.
+const INLINED_STYLES = [
+  "fill",
+  "fill-opacity",
+  "stroke",
+  "stroke-width",
+  "stroke-dasharray",
+  "stroke-opacity",
+  "opacity",
+  "font-family",
+  "font-size",
+  "font-weight",
+  "text-anchor",
+  "dominant-baseline",
+];
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("The chart could not be rendered to an image."));
+    image.src = src;
+  });
+
+// Rasterizes a rendered chart to a PNG on a white background.
+export const svgToImage = async (svg: SVGSVGElement, scale = 2): Promise<ReportImage> => {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const sources = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const targets = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  sources.forEach((source, i) => {
+    const computed = getComputedStyle(source);
+    const target = targets[i] as SVGElement;
+    target.setAttribute(
+      "style",
+      INLINED_STYLES.map((name) => `${name}:${computed.getPropertyValue(name)}`).join(";")
+    );
+  });
+  clone.setAttribute("xmlns", "http://www.w3.org/2000/svg");
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  const markup = new XMLSerializer().serializeToString(clone);
+  const image = await loadImage(
+    `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`
+  );
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const context = canvas.getContext("2d");
+  if (!context) throw new Error("The chart could not be rendered to an image.");
+  context.fillStyle = "#ffffff";
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return { dataUrl: canvas.toDataURL("image/png"), width, height };
+};
+
+// The backend's pre-rendered plot. Its size is read from the decoded image.
+export const base64PngImage = async (base64: string): Promise<ReportImage> => {
+  const dataUrl = `data:image/png;base64,${base64}`;
+  const image = await loadImage(dataUrl);
+  return { dataUrl, width: image.naturalWidth, height: image.naturalHeight };
+};
@@ -0,0 +1,2 @@
+export * from "./chart-image";
+export * from "./pdf";
@@ -0,0 +1,244 @@
+import type { jsPDF } from "jspdf";
+import type {
+  MarketMovers,
+  PredictionData,
+  SentimentSummary,
+  TickerInfo,
+} from "@/lib/api";
+import { TimeZoneId, formatAbsolute } from "@/lib/dates";
+import { formatPercent, formatPrice, formatVolume } from "@/lib/format";
+import type { AnalysisParams, DataProvider } from "@/lib/providers";
+import type { ReportImage } from "./chart-image";
+
+export interface ReportInput {
+  provider: DataProvider;
+  params: AnalysisParams;
+  prediction: PredictionData;
+  charts: { title: string; image: ReportImage }[];
+  marketMovers?: MarketMovers | null;
+  sentiment?: SentimentSummary | null;
+  // Zone for the dates printed in the report.
+  timeZone: TimeZoneId;
+}
+
+export const REPORT_TITLE = "Cryptocurrency Analysis Report";
+
+export const REPORT_DISCLAIMER =
+  "For information only. Model predictions are probabilistic, can be wrong and are not financial advice. " +
+  "Cryptocurrency prices are volatile; do your own research before trading.";
+
+const MARKET_MOVERS_SHOWN = 5;
+
+const BRAND = { primary: [15, 23, 42], accent: [22, 163, 74], muted: [100, 116, 139] } as const;
+const MARGIN = 40;
+const HEADER_HEIGHT = 64;
+const FOOTER_HEIGHT = 48;
+
+type ReportDocument = jsPDF & { lastAutoTable?: { finalY: number } };
+type AutoTable = (typeof import("jspdf-autotable"))["default"];
+
+const optionLabel = (options: { value: string; label: string }[], value: string) =>
+  options.find((option) => option.value === value)?.label ?? value;
+
+const tickerRows = (tickers: TickerInfo[]) =>
+  tickers
+    .slice(0, MARKET_MOVERS_SHOWN)
+    .map((ticker) => [
+      ticker.ticker,
+      `$${formatPrice(ticker.price)}`,
+      `${ticker.change_percentage.toFixed(2)}%`,
+      formatVolume(ticker.volume),
+    ]);
+
+// Lays the report out top to bottom, starting a new page whenever the next
+// block would run into the footer.
+class ReportWriter {
+  private y = HEADER_HEIGHT + 24;
+
+  constructor(
+    private readonly doc: ReportDocument,
+    private readonly autoTable: AutoTable
+  ) {}
+
+  private get width() {
+    return this.doc.internal.pageSize.getWidth() - MARGIN * 2;
+  }
+
+  private get bottom() {
+    return this.doc.internal.pageSize.getHeight() - FOOTER_HEIGHT;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.bottom) {
+      this.doc.addPage();
+      this.y = HEADER_HEIGHT + 24;
+    }
+  }
+
+  heading(text: string) {
+    this.ensureSpace(40);
+    this.doc.setFont("helvetica", "bold").setFontSize(13).setTextColor(...BRAND.primary);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 10;
+  }
+
+  table(head: string[], body: string[][]) {
+    this.autoTable(this.doc, {
+      head: [head],
+      body,
+      startY: this.y,
+      margin: { left: MARGIN, right: MARGIN, top: HEADER_HEIGHT + 16, bottom: FOOTER_HEIGHT },
+      styles: { fontSize: 9, cellPadding: 4 },
+      headStyles: { fillColor: [...BRAND.primary] },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+    });
+    this.y = (this.doc.lastAutoTable?.finalY ?? this.y) + 24;
+  }
+
+  image({ dataUrl, width, height }: ReportImage) {
+    const scaledWidth = Math.min(this.width, width);
+    const scaledHeight = (height / width) * scaledWidth;
+    this.ensureSpace(scaledHeight);
+    this.doc.addImage(dataUrl, "PNG", MARGIN, this.y, scaledWidth, scaledHeight);
+    this.y += scaledHeight + 24;
+  }
+
+  paragraph(text: string) {
+    this.doc.setFont("helvetica", "normal").setFontSize(10).setTextColor(...BRAND.muted);
+    const lines: string[] = this.doc.splitTextToSize(text, this.width);
+    this.ensureSpace(lines.length * 14);
+    this.doc.text(lines, MARGIN, this.y);
+    this.y += lines.length * 14 + 10;
+  }
+}
+
+// The brand band and the disclaimer footer go on every page once the
+// content is laid out, so the page count is known.
+const decoratePages = (doc: jsPDF, subtitle: string, generatedAt: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const pageCount = doc.getNumberOfPages();
+  const footerWidth = pageWidth - MARGIN * 2;
+
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+
+    doc.setFillColor(...BRAND.primary).rect(0, 0, pageWidth, HEADER_HEIGHT, "F");
+    doc.setFillColor(...BRAND.accent).rect(0, HEADER_HEIGHT, pageWidth, 3, "F");
+    doc.setFont("helvetica", "bold").setFontSize(16).setTextColor(255, 255, 255);
+    doc.text(REPORT_TITLE, MARGIN, 30);
+    doc.setFont("helvetica", "normal").setFontSize(10);
+    doc.text(subtitle, MARGIN, 48);
+
+    doc.setDrawColor(226, 232, 240).line(
+      MARGIN,
+      pageHeight - FOOTER_HEIGHT + 8,
+      pageWidth - MARGIN,
+      pageHeight - FOOTER_HEIGHT + 8
+    );
+    doc.setFontSize(7).setTextColor(...BRAND.muted);
+    doc.text(doc.splitTextToSize(REPORT_DISCLAIMER, footerWidth), MARGIN, pageHeight - FOOTER_HEIGHT + 20);
+    doc.text(`Generated ${generatedAt}`, MARGIN, pageHeight - 12);
+    doc.text(`Page ${page} of ${pageCount}`, pageWidth - MARGIN, pageHeight - 12, {
+      align: "right",
+    });
+  }
+};
+
+// Builds the PDF in the browser. jsPDF is loaded on demand so it stays out of
+// the dashboard bundle.
+export const buildReport = async (input: ReportInput): Promise<jsPDF> => {
+  const [{ jsPDF }, { default: autoTable }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+  ]);
+  const { provider, params, prediction, charts, marketMovers, sentiment, timeZone } = input;
+  const generatedAt = formatAbsolute(new Date().toISOString(), timeZone);
+  const doc: ReportDocument = new jsPDF({ unit: "pt", format: "a4" });
+  const writer = new ReportWriter(doc, autoTable);
+  const indicators = prediction.technical_indicators;
+
+  writer.heading("Prediction Summary");
+  writer.table(
+    ["Metric", "Value"],
+    [
+      ["Direction", prediction.prediction],
+      ["Current price", `$${formatPrice(prediction.current_price)}`],
+      ["Probability up", formatPercent(prediction.probability_up)],
+      ["Probability down", formatPercent(prediction.probability_down)],
+      ["Historical accuracy", formatPercent(prediction.accuracy)],
+    ]
+  );
+
+  charts.forEach(({ title, image }) => {
+    writer.heading(title);
+    writer.image(image);
+  });
+
+  writer.heading("Technical Analysis");
+  writer.table(
+    ["Indicator", "Value", "Signal"],
+    [
+      ["RSI", indicators.rsi.toFixed(2), indicators.rsi_signal],
+      ["MACD", indicators.macd.toFixed(4), indicators.macd_signal],
+      ["Stochastic", indicators.stochastic.toFixed(2), indicators.stochastic_signal],
+      ["ADX", indicators.adx.toFixed(2), indicators.trend_strength],
+      ...(indicators.atr !== undefined ? [["ATR", indicators.atr.toFixed(2), "-"]] : []),
+      ...(indicators.mfi !== undefined ? [["MFI", indicators.mfi.toFixed(2), "-"]] : []),
+    ]
+  );
+
+  writer.heading("Price Forecast");
+  writer.table(
+    ["Date", "Predicted", "Interval low", "Interval high", "Direction", "Probability"],
+    prediction.forecast.map((point) => [
+      formatAbsolute(point.date, timeZone),
+      `$${formatPrice(point.predicted_price)}`,
+      `$${formatPrice(point.prediction_interval_low)}`,
+      `$${formatPrice(point.prediction_interval_high)}`,
+      point.direction,
+      formatPercent(point.probability),
+    ])
+  );
+
+  if (marketMovers) {
+    const head = ["Ticker", "Price", "Change", "Volume"];
+    writer.heading("Top Gainers");
+    writer.table(head, tickerRows(marketMovers.top_gainers));
+    writer.heading("Top Losers");
+    writer.table(head, tickerRows(marketMovers.top_losers));
+    writer.paragraph(
+      `Market data last updated ${formatAbsolute(marketMovers.last_updated, timeZone)}.`
+    );
+  }
+
+  if (sentiment) {
+    writer.heading("News Sentiment");
+    writer.table(
+      ["Positive", "Neutral", "Negative", "Average score"],
+      [
+        [
+          String(sentiment.positive),
+          String(sentiment.neutral),
+          String(sentiment.negative),
+          sentiment.average_score.toFixed(3),
+        ],
+      ]
+    );
+  }
+
+  decoratePages(
+    doc,
+    [
+      params.symbol,
+      optionLabel(provider.timeframes, params.timeframe),
+      optionLabel(provider.periods, params.period),
+      provider.label,
+    ].join("  |  "),
+    generatedAt
+  );
+  return doc;
+};
+
+export const reportFileName = (params: AnalysisParams, date = new Date()): string =>
+  `${params.symbol}-${params.timeframe}-report-${date.toISOString().slice(0, 10)}.pdf`;
@@ -0,0 +1,97 @@
+import type { PredictionData } from "@/lib/api";
+import { callProbability } from "@/lib/batch";
+
+export interface RiskInputs {
+  accountSize: number;
+  // Share of the account lost if the stop is hit (0-1).
+  riskFraction: number;
+  // Stop distance in multiples of the ATR.
+  atrMultiple: number;
+  // Share of the full Kelly bet to suggest (0-1]; full Kelly is very volatile.
+  kellyFraction: number;
+}
+
+export interface RiskPlan {
+  side: "long" | "short";
+  entry: number;
+  // Stops and targets at the edges of the last forecast step's interval.
+  intervalStop: number;
+  takeProfit: number;
+  // Null when the backend does not report ATR.
+  atrStop: number | null;
+  // The wider of the two stops, so the position survives both.
+  stop: number;
+  stopDistance: number;
+  // Reward per unit of risk; null when the target is on the wrong side.
+  rewardRisk: number | null;
+  riskAmount: number;
+  quantity: number;
+  notional: number;
+  // Notional over account size; above 1 the position needs leverage.
+  leverage: number;
+  // Probability the call is right, as used for Kelly.
+  winProbability: number;
+  fullKelly: number | null;
+  // Suggested share of the account to risk, never negative.
+  suggestedRisk: number | null;
+}
+
+// Turns the prediction into a trade plan: direction from the call, target
+// and stop from the forecast interval and the ATR, size from the risk budget.
+// Returns null when there is no forecast or price to plan around.
+export const planTrade = (
+  prediction: PredictionData,
+  inputs: RiskInputs
+): RiskPlan | null => {
+  const last = prediction.forecast[prediction.forecast.length - 1];
+  const entry = prediction.current_price;
+  if (!last || !(entry > 0)) return null;
+
+  const side = prediction.prediction === "UP" ? "long" : "short";
+  const direction = side === "long" ? 1 : -1;
+  const intervalStop =
+    side === "long" ? last.prediction_interval_low : last.prediction_interval_high;
+  const takeProfit =
+    side === "long" ? last.prediction_interval_high : last.prediction_interval_low;
+  const atr = prediction.technical_indicators.atr;
+  const atrStop =
+    atr !== undefined && atr > 0 ? entry - direction * inputs.atrMultiple * atr : null;
+
+  // Distances on the losing side; an interval edge past the entry offers no stop.
+  const intervalDistance = Math.max(direction * (entry - intervalStop), 0);
+  const atrDistance = atrStop === null ? 0 : Math.max(direction * (entry - atrStop), 0);
+  const stopDistance = Math.max(intervalDistance, atrDistance);
+  const stop =
+    atrStop !== null && atrDistance >= intervalDistance ? atrStop : intervalStop;
+
+  const rewardDistance = direction * (takeProfit - entry);
+  const rewardRisk =
+    stopDistance > 0 && rewardDistance > 0 ? rewardDistance / stopDistance : null;
+
+  const riskAmount = inputs.accountSize * inputs.riskFraction;
+  const quantity = stopDistance > 0 ? riskAmount / stopDistance : 0;
+  const notional = quantity * entry;
+
+  const winProbability = callProbability(prediction);
+  const fullKelly =
+    rewardRisk === null ? null : winProbability - (1 - winProbability) / rewardRisk;
+
+  return {
+    side,
+    entry,
+    intervalStop,
+    takeProfit,
+    atrStop,
+    stop,
+    stopDistance,
+    rewardRisk,
+    riskAmount,
+    quantity,
+    notional,
+    leverage: inputs.accountSize > 0 ? notional / inputs.accountSize : 0,
+    winProbability,
+    fullKelly,
+    suggestedRisk:
+      fullKelly === null ? null : Math.max(fullKelly, 0) * inputs.kellyFraction,
+  };
+};
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import type { Candle, NewsArticle } from "@/lib/api";
+import { aggregateSentiment, alignCloses } from "..";
+
+const TICKER = "CRYPTO:BTC";
+
+const article = (
+  time_published: string,
+  sentiment_score: number,
+  relevance?: [number, number]
+): NewsArticle => ({
+  title: "",
+  url: "",
+  time_published,
+  authors: [],
+  summary: "",
+  source: "",
+  category_within_source: "",
+  source_domain: "",
+  sentiment_score,
+  sentiment_label: "",
+  topics: [],
+  tickers: [],
+  ticker_sentiment: relevance
+    ? [
+        {
+          ticker: TICKER,
+          relevance_score: relevance[0],
+          ticker_sentiment_score: relevance[1],
+          ticker_sentiment_label: "",
+        },
+      ]
+    : [],
+});
+
+const candles = (closes: [string, number][]): Candle[] =>
+  closes.map(([date, close]) => ({ date, open: close, high: close, low: close, close, volume: 1 }));
+
+// 20:00 UTC on Jan 1 is 03:00 on Jan 2 in WIB.
+const ARTICLES = [
+  article("20250101T200000", 0.4, [0.5, 0.8]),
+  article("20250102T030000", -0.2, [0.25, -0.4]),
+];
+
+describe("aggregateSentiment", () => {
+  it("buckets by the UTC day", () => {
+    const buckets = aggregateSentiment(ARTICLES, "day", TICKER, "UTC");
+    expect(buckets.map((bucket) => [bucket.start, bucket.count])).toEqual([
+      [Date.UTC(2025, 0, 1), 1],
+      [Date.UTC(2025, 0, 2), 1],
+    ]);
+    expect(buckets[0].end).toBe(Date.UTC(2025, 0, 2));
+  });
+
+  it("buckets by the day in the selected zone", () => {
+    const [bucket, ...rest] = aggregateSentiment(ARTICLES, "day", TICKER, "Asia/Jakarta");
+    expect(rest).toEqual([]);
+    // Midnight WIB on Jan 2.
+    expect(bucket.start).toBe(Date.UTC(2025, 0, 1, 17));
+    expect(bucket.end).toBe(Date.UTC(2025, 0, 2, 17));
+    expect(bucket.count).toBe(2);
+    expect(bucket.meanScore).toBeCloseTo(0.1, 10);
+    // (0.5 × 0.8 + 0.25 × -0.4) / 0.75
+    expect(bucket.relevanceScore).toBeCloseTo(0.4, 10);
+    expect(bucket.totalRelevance).toBe(0.75);
+  });
+
+  it("fills the gaps between articles with empty buckets", () => {
+    const buckets = aggregateSentiment(
+      [article("20250101T100000", 0.2), article("20250101T120000", 0.4)],
+      "hour",
+      TICKER,
+      "Asia/Jakarta"
+    );
+    expect(buckets.map((bucket) => bucket.count)).toEqual([1, 0, 1]);
+    expect(buckets[1]).toMatchObject({ meanScore: null, relevanceScore: null });
+  });
+
+  it("skips articles without a readable time", () => {
+    expect(aggregateSentiment([article("soon", 0.5)], "day", TICKER, "UTC")).toEqual([]);
+  });
+});
+
+describe("alignCloses", () => {
+  const daily = candles([
+    ["2025-01-01", 10],
+    ["2025-01-02", 20],
+    ["2025-01-03", 30],
+  ]);
+
+  it("lines daily bars up with the day bucket of the same date", () => {
+    const buckets = aggregateSentiment(ARTICLES, "day", TICKER, "Asia/Jakarta");
+    expect(alignCloses(buckets, daily, "Asia/Jakarta")).toEqual([20]);
+
+    const utc = aggregateSentiment(ARTICLES, "day", TICKER, "UTC");
+    expect(alignCloses(utc, daily, "UTC")).toEqual([10, 20]);
+  });
+
+  it("has no close outside the candles' window", () => {
+    const buckets = aggregateSentiment(
+      [article("20241231T120000", 0.1), article("20250105T120000", 0.1)],
+      "day",
+      TICKER,
+      "UTC"
+    );
+    expect(alignCloses(buckets, daily, "UTC")).toEqual([null, 10, 20, 30, null, null]);
+  });
+});
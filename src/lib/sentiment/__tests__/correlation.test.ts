@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_LAG,
+  SentimentReturnPoint,
+  crossCorrelation,
+  isSignificant,
+  laggedPairs,
+  pearson,
+  spearman,
+} from "..";
+
+// Sentiment s0, s1, ... and returns r0, r1, ... one period apart.
+const points = (
+  sentiment: (number | null)[],
+  returns: (number | null)[]
+): SentimentReturnPoint[] =>
+  sentiment.map((value, i) => ({ start: i, sentiment: value, return: returns[i] }));
+
+describe("pearson", () => {
+  it("matches a hand-computed r", () => {
+    // Sxy = 6, Sxx = 10, Syy = 6, so r = 6 / sqrt(60).
+    const result = pearson([1, 2, 3, 4, 5], [2, 4, 5, 4, 5]);
+    expect(result?.r).toBeCloseTo(6 / Math.sqrt(60), 10);
+    expect(result?.pValue).toBeCloseTo(0.12403, 4);
+  });
+
+  it("is -1 for a falling line", () => {
+    expect(pearson([1, 2, 3], [3, 2, 1])).toEqual({ r: -1, pValue: 0 });
+  });
+
+  it("is null below 2 pairs or when a side is constant", () => {
+    expect(pearson([], [])).toBeNull();
+    expect(pearson([1], [2])).toBeNull();
+    expect(pearson([1, 1, 1], [1, 2, 3])).toBeNull();
+    expect(pearson([1, 2, 3], [4, 4, 4])).toBeNull();
+  });
+});
+
+describe("p-value", () => {
+  // With 1 and 2 degrees of freedom the t test has closed forms: n = 3,
+  // r = 0.5 gives p = 2/3 and n = 4, r = 0.9 gives p = 0.1. The others are
+  // numeric integrals of the t density.
+  it.each([
+    { r: 0.5, n: 3, p: 2 / 3 },
+    { r: 0.9, n: 4, p: 0.1 },
+    { r: 0.8, n: 5, p: 0.104088 },
+    { r: 0.6319, n: 10, p: 0.05 },
+  ])("is $p for r = $r and n = $n", ({ r, n, p }) => {
+    // A sample with exactly this r: y = r x + sqrt(1 - r²) e with x and e
+    // centered, orthogonal and of equal spread.
+    const xs = Array.from({ length: n }, (_, i) => i - (n - 1) / 2);
+    const raw = xs.map((x) => x * x);
+    const mean = raw.reduce((sum, v) => sum + v, 0) / n;
+    const centered = raw.map((v) => v - mean);
+    const scale = Math.sqrt(
+      xs.reduce((sum, x) => sum + x * x, 0) / centered.reduce((sum, e) => sum + e * e, 0)
+    );
+    const ys = xs.map((x, i) => r * x + Math.sqrt(1 - r * r) * centered[i] * scale);
+
+    const result = pearson(xs, ys);
+    expect(result?.r).toBeCloseTo(r, 10);
+    expect(result?.pValue).toBeCloseTo(p, 4);
+  });
+
+  it("is null with 2 pairs", () => {
+    expect(pearson([1, 2], [1, 3])).toEqual({ r: 1, pValue: null });
+  });
+});
+
+describe("spearman", () => {
+  it("is 1 for any increasing relation", () => {
+    expect(spearman([1, 2, 3, 4, 5], [1, 4, 9, 16, 25])?.r).toBeCloseTo(1, 10);
+  });
+
+  it("gives tied values the average of their ranks", () => {
+    // x ranks 1, 2.5, 2.5, 4 against 1, 2, 3, 4: r = 4.5 / sqrt(22.5).
+    expect(spearman([1, 2, 2, 3], [1, 2, 3, 4])?.r).toBeCloseTo(4.5 / Math.sqrt(22.5), 10);
+    // y ranks 1, 2, 3.5, 5, 3.5: r = 8 / sqrt(95).
+    expect(spearman([1, 2, 3, 4, 5], [5, 6, 7, 8, 7])?.r).toBeCloseTo(8 / Math.sqrt(95), 10);
+  });
+
+  it("is null when a side is all ties", () => {
+    expect(spearman([2, 2, 2], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe("laggedPairs", () => {
+  const series = points([1, 2, 3, null], [null, 10, 20, 30]);
+
+  it("pairs sentiment with later returns at positive lags", () => {
+    expect(laggedPairs(series, 1)).toEqual([
+      { x: 1, y: 10, start: 0 },
+      { x: 2, y: 20, start: 1 },
+      { x: 3, y: 30, start: 2 },
+    ]);
+  });
+
+  it("pairs sentiment with earlier returns at negative lags", () => {
+    expect(laggedPairs(series, -1)).toEqual([{ x: 3, y: 10, start: 2 }]);
+  });
+
+  it("skips periods without sentiment or a return", () => {
+    expect(laggedPairs(series, 0)).toEqual([
+      { x: 2, y: 10, start: 1 },
+      { x: 3, y: 20, start: 2 },
+    ]);
+  });
+});
+
+describe("crossCorrelation", () => {
+  it("covers every lag and finds where sentiment leads", () => {
+    const sentiment = [0.1, -0.3, 0.5, 0.2, -0.1, 0.4, -0.5, 0.3, 0, -0.2, 0.6, -0.4];
+    // Returns follow the previous period's sentiment.
+    const returns = [null, ...sentiment.slice(0, -1).map((s) => s / 10)];
+    const lags = crossCorrelation(points(sentiment, returns));
+
+    expect(lags.map((entry) => entry.lag)).toEqual(
+      Array.from({ length: MAX_LAG * 2 + 1 }, (_, i) => i - MAX_LAG)
+    );
+    const leading = lags.find((entry) => entry.lag === 1)!;
+    expect(leading.n).toBe(11);
+    expect(leading.pearson?.r).toBeCloseTo(1, 10);
+    expect(isSignificant(leading.pearson)).toBe(true);
+    // Sentiment at t paired with the return at t - 1: t runs from 2 to 11.
+    expect(lags.find((entry) => entry.lag === -1)!.n).toBe(10);
+  });
+});
+
+describe("isSignificant", () => {
+  it("needs a p-value below the significance level", () => {
+    expect(isSignificant(null)).toBe(false);
+    expect(isSignificant({ r: 1, pValue: null })).toBe(false);
+    expect(isSignificant({ r: 0.9, pValue: 0.05 })).toBe(false);
+    expect(isSignificant({ r: 0.9, pValue: 0.049 })).toBe(true);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Candle, NewsArticle } from "@/lib/api";
+import {
+  TimeZoneId,
+  fromZoneWallClock,
+  parseDate,
+  parseTimestamp,
+  toZoneWallClock,
+} from "@/lib/dates";
+
+export type SentimentBucketSize = "hour" | "day";
+
+export interface SentimentBucket {
+  // Start and end of the bucket, on the hours and days of the chosen zone.
+  start: number;
+  end: number;
+  count: number;
+  // Plain mean of the articles' overall sentiment_score.
+  meanScore: number | null;
+  // Mean of the per-ticker score weighted by relevance_score, over articles
+  // that rate the ticker; null when none do.
+  relevanceScore: number | null;
+  totalRelevance: number;
+}
+
+const BUCKET_MS: Record<SentimentBucketSize, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+// The Alpha Vantage ticker for a base currency, e.g. BTC -> CRYPTO:BTC.
+export const cryptoTicker = (symbol: string): string =>
+  `CRYPTO:${symbol.toUpperCase().split("-")[0]}`;
+
+// Buckets articles by publication time. Every bucket between the first and
+// the last article is returned, empty ones with a count of 0, so the series
+// has no gaps on a time axis. Buckets follow the clock in `timeZone`, so a day
+// bucket is the same day the articles are listed under.
+export const aggregateSentiment = (
+  articles: NewsArticle[],
+  size: SentimentBucketSize,
+  ticker: string,
+  timeZone: TimeZoneId
+): SentimentBucket[] => {
+  const span = BUCKET_MS[size];
+  const sums = new Map<
+    number,
+    { count: number; score: number; relevance: number; weighted: number }
+  >();
+
+  articles.forEach((article) => {
+    const time = parseTimestamp(article.time_published);
+    if (time === null) return;
+    // Keyed by the zone's wall clock, where every day is the same length.
+    const key = Math.floor(toZoneWallClock(time, timeZone) / span) * span;
+    const sum = sums.get(key) ?? { count: 0, score: 0, relevance: 0, weighted: 0 };
+    sum.count++;
+    sum.score += article.sentiment_score;
+    const rating = article.ticker_sentiment.find((entry) => entry.ticker === ticker);
+    if (rating) {
+      sum.relevance += rating.relevance_score;
+      sum.weighted += rating.relevance_score * rating.ticker_sentiment_score;
+    }
+    sums.set(key, sum);
+  });
+
+  if (!sums.size) return [];
+  const keys = Array.from(sums.keys());
+  const first = Math.min(...keys);
+  const last = Math.max(...keys);
+
+  const buckets: SentimentBucket[] = [];
+  for (let key = first; key <= last; key += span) {
+    const sum = sums.get(key);
+    buckets.push({
+      start: fromZoneWallClock(key, timeZone),
+      end: fromZoneWallClock(key + span, timeZone),
+      count: sum?.count ?? 0,
+      meanScore: sum ? sum.score / sum.count : null,
+      relevanceScore: sum && sum.relevance > 0 ? sum.weighted / sum.relevance : null,
+      totalRelevance: sum?.relevance ?? 0,
+    });
+  }
+  return buckets;
+};
+
+// The close of the latest candle that opened before each bucket ends, or null
+// outside the candles' window, for drawing price on the same time axis. A
+// daily bar opens at midnight in `timeZone`, so it lines up with the day
+// bucket of the same date.
+export const alignCloses = (
+  buckets: SentimentBucket[],
+  candles: Candle[],
+  timeZone: TimeZoneId
+): (number | null)[] => {
+  const bars = candles
+    .flatMap((candle) => {
+      const parsed = parseDate(candle.date);
+      if (!parsed) return [];
+      const time = parsed.dateOnly ? fromZoneWallClock(parsed.time, timeZone) : parsed.time;
+      return [{ time, close: candle.close }];
+    })
+    .sort((a, b) => a.time - b.time);
+  if (!bars.length) return buckets.map(() => null);
+  // A bar covers the time up to the next one; the last covers one more step.
+  const step =
+    bars.length > 1 ? bars[bars.length - 1].time - bars[bars.length - 2].time : BUCKET_MS.day;
+  const windowEnd = bars[bars.length - 1].time + step;
+
+  let index = -1;
+  return buckets.map(({ start, end }) => {
+    while (index + 1 < bars.length && bars[index + 1].time < end) index++;
+    return index >= 0 && start < windowEnd ? bars[index].close : null;
+  });
+};
@@ -0,0 +1,175 @@
+import type { SentimentBucket } from "./aggregate";
+
+export interface SentimentReturnPoint {
+  start: number;
+  // Mean sentiment_score of the bucket; null when it has no articles.
+  sentiment: number | null;
+  // Close-to-close return into this bucket; null without both closes.
+  return: number | null;
+}
+
+export interface Correlation {
+  r: number;
+  // Two-sided p-value of r = 0 from the t distribution with n - 2 degrees
+  // of freedom; null below 3 pairs.
+  pValue: number | null;
+}
+
+export interface LagCorrelation {
+  // Positive lags pair sentiment with later returns (sentiment leads price),
+  // negative lags with earlier ones (price leads sentiment).
+  lag: number;
+  n: number;
+  pearson: Correlation | null;
+  spearman: Correlation | null;
+}
+
+export const MAX_LAG = 5;
+export const SIGNIFICANCE_LEVEL = 0.05;
+
+// Pairs each bucket's average sentiment with the return of the price over the
+// same bucket, from the closes lined up by alignCloses.
+export const sentimentReturns = (
+  buckets: SentimentBucket[],
+  closes: (number | null)[]
+): SentimentReturnPoint[] =>
+  buckets.map((bucket, i) => {
+    const previous = i > 0 ? closes[i - 1] : null;
+    const close = closes[i];
+    return {
+      start: bucket.start,
+      sentiment: bucket.meanScore,
+      return: previous && close !== null ? close / previous - 1 : null,
+    };
+  });
+
+// Sentiment at t against the return at t + lag, for every t where both exist.
+export const laggedPairs = (
+  points: SentimentReturnPoint[],
+  lag: number
+): { x: number; y: number; start: number }[] =>
+  points.flatMap((point, i) => {
+    const target = points[i + lag]?.return ?? null;
+    return point.sentiment !== null && target !== null
+      ? [{ x: point.sentiment, y: target, start: point.start }]
+      : [];
+  });
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Continued fraction for the regularized incomplete beta function
+// (Numerical Recipes, betacf).
+const betaFraction = (a: number, b: number, x: number): number => {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-12) break;
+  }
+  return h;
+};
+
+// Lanczos approximation of ln Γ(z).
+const logGamma = (z: number): number => {
+  const g = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155,
+    0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = z;
+  const tmp = z + 5.5 - (z + 0.5) * Math.log(z + 5.5);
+  let series = 1.000000000190015;
+  g.forEach((coefficient) => (series += coefficient / ++y));
+  return -tmp + Math.log((2.5066282746310005 * series) / z);
+};
+
+const incompleteBeta = (a: number, b: number, x: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(
+    logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x)
+  );
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaFraction(a, b, x)) / a
+    : 1 - (front * betaFraction(b, a, 1 - x)) / b;
+};
+
+const correlationPValue = (r: number, n: number): number | null => {
+  if (n < 3) return null;
+  if (Math.abs(r) >= 1) return 0;
+  const df = n - 2;
+  const t2 = (r * r * df) / (1 - r * r);
+  return incompleteBeta(df / 2, 0.5, df / (df + t2));
+};
+
+// Pearson's r; null with fewer than 2 pairs or when either side is constant.
+export const pearson = (xs: number[], ys: number[]): Correlation | null => {
+  if (xs.length < 2) return null;
+  const mx = mean(xs);
+  const my = mean(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  if (sxx === 0 || syy === 0) return null;
+  const r = Math.max(-1, Math.min(1, sxy / Math.sqrt(sxx * syy)));
+  return { r, pValue: correlationPValue(r, xs.length) };
+};
+
+// 1-based ranks, ties sharing the average of their positions.
+const ranks = (values: number[]): number[] => {
+  const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+  const result = new Array<number>(values.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].value === order[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) result[order[k].index] = rank;
+    i = j + 1;
+  }
+  return result;
+};
+
+// Spearman's rho as Pearson's r of the ranks, with the same t approximation
+// for its p-value.
+export const spearman = (xs: number[], ys: number[]): Correlation | null =>
+  pearson(ranks(xs), ranks(ys));
+
+export const isSignificant = (correlation: Correlation | null): boolean =>
+  correlation !== null && correlation.pValue !== null && correlation.pValue < SIGNIFICANCE_LEVEL;
+
+export const crossCorrelation = (
+  points: SentimentReturnPoint[],
+  maxLag = MAX_LAG
+): LagCorrelation[] => {
+  const lags: LagCorrelation[] = [];
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const pairs = laggedPairs(points, lag);
+    const xs = pairs.map((pair) => pair.x);
+    const ys = pairs.map((pair) => pair.y);
+    lags.push({ lag, n: pairs.length, pearson: pearson(xs, ys), spearman: spearman(xs, ys) });
+  }
+  return lags;
+};
@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+import { cookies } from "next/headers";
+import type { CredentialStatus } from "@/lib/api/schemas";
+
+// Alpha Vantage keys never reach the browser. A server-wide key comes from
+// ALPHA_VANTAGE_API_KEY; users may also store their own key for the lifetime
+// of their session, which is tracked by an httpOnly cookie. Session keys are
+// held in memory, so they are lost when the server restarts.
+
+export type CredentialSource = NonNullable<CredentialStatus["source"]>;
+
+const SESSION_COOKIE = "av_session";
+const SESSION_MAX_AGE = 60 * 60 * 12;
+
+const sessionKeys = new Map<string, string>();
+
+const readSessionId = async (): Promise<string | undefined> =>
+  (await cookies()).get(SESSION_COOKIE)?.value;
+
+const ensureSessionId = async (): Promise<string> => {
+  const store = await cookies();
+  const existing = store.get(SESSION_COOKIE)?.value;
+  if (existing) return existing;
+
+  const sessionId = randomUUID();
+  store.set(SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE,
+  });
+  return sessionId;
+};
+
+export const resolveApiKey = async (): Promise<{
+  key: string;
+  source: CredentialSource;
+} | null> => {
+  const sessionId = await readSessionId();
+  const sessionKey = sessionId ? sessionKeys.get(sessionId) : undefined;
+  if (sessionKey) return { key: sessionKey, source: "session" };
+
+  const serverKey = process.env.ALPHA_VANTAGE_API_KEY;
+  if (serverKey) return { key: serverKey, source: "server" };
+
+  return null;
+};
+
+export const getCredentialStatus = async (): Promise<CredentialStatus> => {
+  const resolved = await resolveApiKey();
+  return { configured: resolved !== null, source: resolved?.source ?? null };
+};
+
+export const storeSessionApiKey = async (apiKey: string): Promise<void> => {
+  sessionKeys.set(await ensureSessionId(), apiKey);
+};
+
+export const clearSessionApiKey = async (): Promise<void> => {
+  const sessionId = await readSessionId();
+  if (sessionId) sessionKeys.delete(sessionId);
+};